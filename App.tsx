@@ -6,21 +6,50 @@ import ExecutionTimer from './components/ExecutionTimer';
 import ChatHistory from './components/ChatHistory';
 import EagleEmblem from './components/EagleEmblem';
 import ProgressionModal from './components/ProgressionModal';
-import { AppView, UserStats, TimerState, ChatSession, UserProfile, MentalMapItem } from './types';
-import { MessageSquare, Mic, Map, Timer, Menu, X, Terminal, Trophy, Star, Zap, Clock, LogIn, Lock, UserPlus, AlertCircle, Loader2 } from 'lucide-react';
-import { INITIAL_MESSAGE } from './constants';
-import { authService } from './services/authService';
+import AccountModal from './components/AccountModal';
+import PasswordReset from './components/PasswordReset';
+import RecoveryCodeModal from './components/RecoveryCodeModal';
+import SyncStatusBadge from './components/SyncStatusBadge';
+import FocusAnalytics from './components/FocusAnalytics';
+import { AppView, UserStats, TimerState, ChatSession, UserProfile, MentalMapItem, LedgerEntry, Achievement, AccountArchive, FocusSession } from './types';
+import { MessageSquare, Mic, Map, Timer, Menu, X, Terminal, Trophy, Star, Zap, Clock, LogIn, Lock, UserPlus, AlertCircle, Loader2, Flame, Medal, Cloud, HardDrive, UserCog, BarChart3 } from 'lucide-react';
+import { FOCUS_CYCLE_POINTS, INITIAL_MESSAGE } from './constants';
+import { authService, AuthResponse, AuthSource, SessionExpiredError } from './services/authService';
+import { RestoreMode, restoreBackup } from './services/backupService';
+import { CollectionWriter, STATS_RECORD_ID, StorageChanges, UserCollection, createCollectionWriter, getStorage, migrateLegacyData } from './services/storage';
+import { createDefaultStats, createInitialSession, loadUserData } from './services/schema';
+import { SyncMessage, TabSync, createTabSync, electLeader, mergeRemoteRecords } from './services/tabSync';
+import { RECORD_MERGES, byTime, mergeSession } from './services/mergeService';
+import { SyncEngine, SyncStatus, createSyncEngine } from './services/syncService';
+import { TIMER_RECORD_ID, advanceTimer, createTimer, isRunning, restoreTimer } from './services/timerService';
+import { applyAwardPolicy } from './services/awardPolicy';
+import { AwardMeta, deriveLifetimePoints, derivePoints, reverseLedgerEntry } from './services/ledgerService';
+import { computeStreak } from './services/streakService';
+import { findNewAchievements } from './services/achievementService';
+import { canPrestige, completeCycle, getCycleStart, getLevel, getRank, getRankProgress } from './services/progressionService';
+
+interface UserDataWriters {
+  sessions: CollectionWriter<ChatSession>;
+  maps: CollectionWriter<MentalMapItem>;
+  stats: CollectionWriter<UserStats>;
+  ledger: CollectionWriter<LedgerEntry>;
+  focus: CollectionWriter<FocusSession>;
+}
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<AppView>(AppView.LOGIN);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [progressionModalOpen, setProgressionModalOpen] = useState(false);
+  const [accountModalOpen, setAccountModalOpen] = useState(false);
   
   // --- Auth States ---
   const [user, setUser] = useState<UserProfile | null>(null);
-  const [authMode, setAuthMode] = useState<'LOGIN' | 'REGISTER'>('LOGIN');
+  const [authMode, setAuthMode] = useState<'LOGIN' | 'REGISTER' | 'FORGOT'>('LOGIN');
   const [isLoadingAuth, setIsLoadingAuth] = useState(false);
   const [authError, setAuthError] = useState('');
+  const [authNotice, setAuthNotice] = useState('');
+  const [authSource, setAuthSource] = useState<AuthSource | null>(null);
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null); // Shown once, then forgotten
 
   // Form Inputs
   const [loginEmail, setLoginEmail] = useState('');
@@ -32,24 +61,59 @@ const App: React.FC = () => {
   // --- Initial Auth Check ---
   useEffect(() => {
     const checkSession = async () => {
-      const currentUser = await authService.getCurrentUser();
-      if (currentUser) {
-        setUser(currentUser);
-        setCurrentView(AppView.CHAT);
+      try {
+        const currentUser = await authService.getCurrentUser();
+        if (currentUser) {
+          setUser(currentUser);
+          setAuthSource(authService.getAuthSource());
+          setCurrentView(AppView.CHAT);
+        }
+      } catch (err: any) {
+        if (err instanceof SessionExpiredError) setAuthError(err.message);
       }
     };
     checkSession();
   }, []);
 
+  // --- Session Expiry Watch ---
+  // Re-validates the token periodically so an expired session logs out on its own.
+  // The interval outlives renders, so it calls the latest handleLogout through a ref
+  const handleLogoutRef = useRef<(reason?: string) => Promise<void>>(async () => {});
+  useEffect(() => {
+    if (!user?.id) return;
+    const interval = setInterval(async () => {
+      try {
+        const currentUser = await authService.getCurrentUser();
+        if (!currentUser) handleLogoutRef.current();
+      } catch (err: any) {
+        if (err instanceof SessionExpiredError) handleLogoutRef.current(err.message);
+      }
+    }, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [user?.id]);
+
   // --- Auth Handlers ---
+  const enterApp = (response: AuthResponse) => {
+    setUser(response.user);
+    setAuthSource(response.source);
+    setRecoveryCode(response.recoveryCode ?? null);
+    setAuthNotice('');
+    setCurrentView(AppView.CHAT);
+  };
+
+  const switchAuthMode = (mode: 'LOGIN' | 'REGISTER' | 'FORGOT', notice = '') => {
+    setAuthMode(mode);
+    setAuthError('');
+    setAuthNotice(notice);
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setAuthError('');
     setIsLoadingAuth(true);
     try {
       const response = await authService.login(loginEmail, loginPass);
-      setUser(response.user);
-      setCurrentView(AppView.CHAT);
+      enterApp(response);
     } catch (err: any) {
       setAuthError(err.message || 'Erro ao acessar o sistema.');
     } finally {
@@ -63,8 +127,7 @@ const App: React.FC = () => {
     setIsLoadingAuth(true);
     try {
       const response = await authService.register(regName, regEmail, regPass);
-      setUser(response.user);
-      setCurrentView(AppView.CHAT);
+      enterApp(response);
     } catch (err: any) {
       setAuthError(err.message || 'Erro ao criar conta.');
     } finally {
@@ -72,8 +135,13 @@ const App: React.FC = () => {
     }
   };
 
-  const handleLogout = async () => {
+  const handleLogout = async (reason?: string) => {
     await authService.logout();
+    setAuthError(reason || '');
+    setAuthNotice('');
+    setAuthSource(null);
+    setRecoveryCode(null);
+    setAccountModalOpen(false);
     setUser(null);
     setCurrentView(AppView.LOGIN);
     setAuthMode('LOGIN');
@@ -83,80 +151,208 @@ const App: React.FC = () => {
     setRegEmail('');
     setRegPass('');
     setSidebarOpen(false);
+    // Drop the previous user's data so nothing of it is shown or written while the next one loads
+    writersRef.current = null;
+    setDataLoaded(false);
+    setLoadError('');
+    setSessions([]);
+    setMentalMaps([]);
+    setUserStats(createDefaultStats(''));
+    setLedger([]);
+    setFocusLog([]);
+    setTimer(createTimer());
   };
+  handleLogoutRef.current = handleLogout;
 
-  // --- Data Loading Logic ---
-  const loadUserData = <T,>(key: string, defaultVal: T): T => {
-    if (!user?.id) return defaultVal;
-    const saved = localStorage.getItem(`mentor_data_${user.id}_${key}`);
-    try {
-      if (saved) return JSON.parse(saved);
-    } catch (e) { console.error(`Error loading ${key}`, e); }
-    return defaultVal;
-  };
-
-  const saveUserData = (key: string, data: any) => {
-    if (!user?.id) return;
-    localStorage.setItem(`mentor_data_${user.id}_${key}`, JSON.stringify(data));
+  const handleAccountDeleted = async () => {
+    await handleLogout();
+    setAuthNotice('Conta excluída permanentemente.');
   };
 
+  // --- Data Loading Logic ---
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [mentalMaps, setMentalMaps] = useState<MentalMapItem[]>([]);
   const [activeSessionId, setActiveSessionId] = useState<string>('');
-  const [userStats, setUserStats] = useState<UserStats>({ userId: '', points: 0, level: 1, streak: 0, achievements: [] });
-  const [timer, setTimer] = useState<TimerState>({ minutes: 25, seconds: 0, isActive: false, mode: 'FOCUS', deliverable: '' });
+  const [userStats, setUserStats] = useState<UserStats>(createDefaultStats(''));
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [focusLog, setFocusLog] = useState<FocusSession[]>([]);
+  const [dataLoaded, setDataLoaded] = useState(false);
+  // Set when loading failed (e.g. data saved by a newer app version); bumping loadAttempt loads again
+  const [loadError, setLoadError] = useState('');
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const ledgerRef = useRef<LedgerEntry[]>([]);
+  const writersRef = useRef<UserDataWriters | null>(null);
+  const [achievementToast, setAchievementToast] = useState<Achievement | null>(null);
+  const [timer, setTimer] = useState<TimerState>(createTimer());
+  const [now, setNow] = useState(() => Date.now());
+
+  // --- Cross-tab sync ---
+  const syncRef = useRef<TabSync | null>(null);
+  const syncHandlerRef = useRef<(message: SyncMessage) => void>(() => {});
+  const [isTimerOwner, setIsTimerOwner] = useState(false);
+  const timerSharedRef = useRef(false);
+  const remoteTimerRef = useRef<TimerState | null>(null);
 
   useEffect(() => {
     if (!user?.id) return;
-    
-    // Load Sessions with RECOVERY MECHANISM
-    // We pass [] as default to check if it returns valid data, but we handle empty arrays explicitly below
-    let loadedSessions = loadUserData<ChatSession[]>('sessions', []);
-    
-    // CRITICAL FIX: If loaded data is empty (or corrupted to []), force a new session.
-    // This prevents the "Infinite Loading Screen" bug.
-    if (!loadedSessions || loadedSessions.length === 0) {
-       loadedSessions = [{
-          id: Date.now().toString(),
-          title: 'Sessão Inicial',
-          messages: [{ id: 'init', role: 'model', text: INITIAL_MESSAGE, timestamp: new Date() }],
-          lastModified: new Date()
-       }];
-    }
-    
-    const parsedSessions = loadedSessions.map(s => ({
-        ...s,
-        lastModified: new Date(s.lastModified),
-        messages: s.messages.map(m => ({...m, timestamp: new Date(m.timestamp)}))
-    }));
-
-    setSessions(parsedSessions);
-    // Ensure activeSessionId is valid
-    setActiveSessionId(parsedSessions[0].id);
-
-    // Load Maps
-    const loadedMaps = loadUserData<MentalMapItem[]>('maps', []);
-    const parsedMaps = loadedMaps.map(m => ({
-      ...m,
-      createdAt: new Date(m.createdAt)
-    }));
-    setMentalMaps(parsedMaps);
-
-    // Load Stats
-    const loadedStats = loadUserData<UserStats>('stats', {
-      userId: user.id,
-      points: 0,
-      level: 1,
-      streak: 0,
-      achievements: []
+    const sync = createTabSync(user.id, (message) => syncHandlerRef.current(message));
+    syncRef.current = sync;
+    // Without Web Locks every tab runs its own timer, so timers are not shared
+    const resign = electLeader(`mentor_timer_${user.id}`, () => setIsTimerOwner(true));
+    timerSharedRef.current = resign !== null;
+    if (resign) sync.announce();
+    else setIsTimerOwner(true);
+
+    return () => {
+      resign?.();
+      sync.close();
+      syncRef.current = null;
+      setIsTimerOwner(false);
+    };
+  }, [user?.id]);
+
+  // --- Cloud sync (remote accounts) ---
+  // One tab per user syncs with the backend; the others relay their writes to it and show its status
+  const syncEngineRef = useRef<SyncEngine | null>(null);
+  const applyRemoteRecordsRef = useRef<(collection: UserCollection, put: string[], deleted: string[]) => Promise<void>>(async () => {});
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+
+  useEffect(() => {
+    if (!user?.id || authSource !== 'remote' || !dataLoaded) return;
+    const userId = user.id;
+    let cancelled = false;
+
+    const startEngine = async () => {
+      const storage = await getStorage();
+      if (cancelled) return;
+      syncEngineRef.current = createSyncEngine({
+        storage,
+        userId,
+        onRemoteChanges: (collection, put, deleted) => {
+          applyRemoteRecordsRef.current(collection, put, deleted).catch((e) => console.error("Falha ao aplicar dados sincronizados.", e));
+          syncRef.current?.publishRecords(collection, put, deleted);
+        },
+        onStatus: (status) => {
+          setSyncStatus(status);
+          syncRef.current?.publishSyncStatus(status);
+        },
+      });
+    };
+    const resign = electLeader(`mentor_cloud_${userId}`, startEngine);
+    if (!resign) startEngine();
+
+    return () => {
+      cancelled = true;
+      resign?.();
+      syncEngineRef.current?.stop();
+      syncEngineRef.current = null;
+      setSyncStatus(null);
+    };
+  }, [user?.id, authSource, dataLoaded]);
+
+  const requestSync = () => {
+    if (syncEngineRef.current) syncEngineRef.current.syncNow();
+    else syncRef.current?.requestSync();
+  };
+
+  useEffect(() => {
+    if (!user?.id) return;
+    const userId = user.id;
+    let cancelled = false;
+
+    const load = async () => {
+      const storage = await getStorage();
+      await migrateLegacyData(storage, userId);
+      const { data } = await loadUserData(storage, userId);
+      const savedTimer = await storage.get<unknown>(userId, 'timer', TIMER_RECORD_ID);
+      if (cancelled) return;
+
+      // The loader already stored what it created (first session, opening balance), so everything is primed
+      const publish = (collection: UserCollection) => (changes: StorageChanges) => {
+        const put = (changes.put || []).map(([id]) => id);
+        const deleted = changes.delete || [];
+        syncRef.current?.publishRecords(collection, put, deleted);
+        syncEngineRef.current?.track(collection, [...put, ...deleted]);
+      };
+      const writers: UserDataWriters = {
+        sessions: createCollectionWriter(storage, userId, 'sessions', s => s.id, publish('sessions')),
+        maps: createCollectionWriter(storage, userId, 'maps', m => m.id, publish('maps')),
+        stats: createCollectionWriter(storage, userId, 'stats', () => STATS_RECORD_ID, publish('stats')),
+        ledger: createCollectionWriter(storage, userId, 'ledger', e => e.id, publish('ledger')),
+        focus: createCollectionWriter(storage, userId, 'focus', s => s.id, publish('focus')),
+      };
+      writers.sessions.prime(data.sessions);
+      writers.maps.prime(data.maps);
+      writers.stats.prime([data.stats]);
+      writers.ledger.prime(data.ledger);
+      writers.focus.prime(data.focus);
+      writersRef.current = writers;
+
+      setSessions(data.sessions);
+      setActiveSessionId(data.sessions[0].id);
+      setMentalMaps(data.maps);
+      setUserStats(data.stats);
+      setLedger(data.ledger);
+      setFocusLog(data.focus);
+      setTimer(restoreTimer(savedTimer));
+      setDataLoaded(true);
+    };
+
+    load().catch((e) => {
+      console.error("Falha ao carregar os dados do usuário.", e);
+      if (!cancelled) setLoadError(e?.message || 'Falha ao carregar os dados.');
     });
-    setUserStats(loadedStats);
+    return () => { cancelled = true; };
+  }, [user?.id, loadAttempt]);
 
-  }, [user?.id]);
+  const retryLoad = () => {
+    setLoadError('');
+    setLoadAttempt(n => n + 1);
+  };
 
-  useEffect(() => { if (user?.id && sessions.length > 0) saveUserData('sessions', sessions); }, [sessions, user?.id]);
-  useEffect(() => { if (user?.id) saveUserData('maps', mentalMaps); }, [mentalMaps, user?.id]);
-  useEffect(() => { if (user?.id) saveUserData('stats', userStats); }, [userStats, user?.id]);
+  // Each writer only persists the records whose object changed since the last write
+  useEffect(() => { if (dataLoaded) writersRef.current?.sessions.write(sessions); }, [sessions, dataLoaded]);
+  useEffect(() => { if (dataLoaded) writersRef.current?.maps.write(mentalMaps); }, [mentalMaps, dataLoaded]);
+  useEffect(() => { if (dataLoaded) writersRef.current?.stats.write([userStats]); }, [userStats, dataLoaded]);
+  useEffect(() => { if (dataLoaded) writersRef.current?.ledger.write(ledger); }, [ledger, dataLoaded]);
+  useEffect(() => { if (dataLoaded) writersRef.current?.focus.write(focusLog); }, [focusLog, dataLoaded]);
+  useEffect(() => { ledgerRef.current = ledger; }, [ledger]);
+
+  // Points and level are always derived from the ledger, never mutated directly.
+  // Unchanged values keep the same stats object, so nothing is rewritten (and re-broadcast to other tabs).
+  useEffect(() => {
+    if (!dataLoaded) return;
+    const points = derivePoints(ledger, getCycleStart(userStats.prestigeHistory));
+    const lifetimePoints = deriveLifetimePoints(ledger);
+    const level = getLevel(points);
+    setUserStats(prev => prev.points === points && prev.lifetimePoints === lifetimePoints && prev.level === level
+      ? prev
+      : { ...prev, points, lifetimePoints, level });
+  }, [ledger, dataLoaded, userStats.prestigeHistory]);
+
+  useEffect(() => {
+    if (!dataLoaded) return;
+    const { current, best } = computeStreak(ledger, sessions);
+    setUserStats(prev => prev.streak === current && prev.bestStreak >= best
+      ? prev
+      : { ...prev, streak: current, bestStreak: Math.max(prev.bestStreak, best) });
+  }, [ledger, sessions, dataLoaded]);
+
+  // Re-evaluate the achievement catalog whenever anything it depends on changes
+  useEffect(() => {
+    if (!dataLoaded) return;
+    const unlocked = findNewAchievements({ stats: userStats, ledger, sessions, mentalMaps });
+    if (unlocked.length === 0) return;
+    setUserStats(prev => ({ ...prev, achievements: [...prev.achievements, ...unlocked.filter(a => !prev.achievements.some(p => p.id === a.id))] }));
+    setAchievementToast(unlocked[unlocked.length - 1]);
+  }, [userStats, ledger, sessions, mentalMaps, dataLoaded]);
+
+  useEffect(() => {
+    if (achievementToast) {
+      const timer = setTimeout(() => setAchievementToast(null), 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [achievementToast]);
 
   const createNewSession = () => {
     const newSession: ChatSession = {
@@ -171,8 +367,9 @@ const App: React.FC = () => {
     setSidebarOpen(false);
   };
 
+  // Merged by message id, so messages another tab added meanwhile are not overwritten
   const updateSession = (updatedSession: ChatSession) => {
-    setSessions(prev => prev.map(s => s.id === updatedSession.id ? updatedSession : s));
+    setSessions(prev => prev.map(s => s.id === updatedSession.id ? mergeSession(s, updatedSession) : s));
   };
 
   // Safe getter for active session with fallback to prevent crashes
@@ -180,7 +377,7 @@ const App: React.FC = () => {
      const found = sessions.find(s => s.id === activeSessionId) || sessions[0];
      if (found) return found;
      
-     // Fallback while loading (should rarely be hit now with the fix above)
+     // Fallback while loading (loadUserData always provides at least one session)
      return {
         id: 'loading',
         title: 'Carregando...',
@@ -194,38 +391,152 @@ const App: React.FC = () => {
     setMentalMaps(prev => [newMap, ...prev]);
   };
 
-  const addPoints = (amount: number, reason?: string) => {
-    if (amount <= 0) return;
+  // Stats are reconciled through the ledger by restoreBackup; the derive effects above then take over
+  const importBackup = (archive: AccountArchive, mode: RestoreMode) => {
+    const restored = restoreBackup(archive, { sessions, maps: mentalMaps, stats: userStats, ledger, focus: focusLog }, mode);
+    const restoredSessions = restored.sessions.length > 0 ? restored.sessions : [createInitialSession()];
+
+    setSessions(restoredSessions);
+    if (!restoredSessions.some(s => s.id === activeSessionId)) setActiveSessionId(restoredSessions[0].id);
+    setMentalMaps(restored.maps);
+    ledgerRef.current = restored.ledger;
+    setLedger(restored.ledger);
+    setUserStats(restored.stats);
+    setFocusLog(restored.focus);
+  };
+
+  // Every award goes through the anti-farming policy; the ref lets several awards in one tick see each other
+  const addPoints = (amount: number, reason: string, meta: AwardMeta): LedgerEntry | null => {
+    if (!amount) return null;
+    const entry = applyAwardPolicy(ledgerRef.current, amount, reason, meta);
+    ledgerRef.current = [...ledgerRef.current, entry];
+    setLedger(prev => [...prev, entry]);
+    return entry;
+  };
+
+  const reverseEntry = (entryId: string) => {
+    setLedger(prev => reverseLedgerEntry(prev, entryId));
+  };
+
+  // Closes the current cycle at the cap; the ledger keeps every entry, only the displayed cycle resets
+  const startNewCycle = () => {
     setUserStats(prev => {
-      const newPoints = Math.min(prev.points + amount, 10000);
-      const newLevel = Math.floor(newPoints / 500) + 1;
-      return { ...prev, points: newPoints, level: newLevel };
+      if (!canPrestige(prev.points)) return prev;
+      return {
+        ...prev,
+        prestige: prev.prestige + 1,
+        prestigeHistory: completeCycle(prev.prestigeHistory, prev.points)
+      };
     });
   };
 
-  const updateTimer = (newState: Partial<TimerState>) => setTimer(prev => ({ ...prev, ...newState }));
+  const updateTimer = (update: (prev: TimerState) => TimerState) => setTimer(update);
 
+  // Local changes (user actions, completion by the owner) go to the other tabs; states received from them are not echoed
   useEffect(() => {
-    let interval: any = null;
-    if (timer.isActive) {
-      interval = setInterval(() => {
-        setTimer(prev => {
-          if (prev.seconds === 0) {
-            if (prev.minutes === 0) {
-              clearInterval(interval);
-              const audio = new Audio('https://assets.mixkit.co/sfx/preview/mixkit-alarm-digital-clock-beep-989.mp3');
-              audio.volume = 1.0;
-              audio.play().catch(console.error);
-              return { ...prev, isActive: false };
-            }
-            return { ...prev, minutes: prev.minutes - 1, seconds: 59 };
-          }
-          return { ...prev, seconds: prev.seconds - 1 };
-        });
-      }, 1000);
+    if (!timerSharedRef.current || timer === remoteTimerRef.current) return;
+    syncRef.current?.publishTimer(timer);
+  }, [timer]);
+
+  // Stored on every local change, so a reload resumes the countdown (or finds it expired) from the same timestamps
+  useEffect(() => {
+    if (!dataLoaded || !user?.id || timer === remoteTimerRef.current) return;
+    const userId = user.id;
+    getStorage()
+      .then(storage => storage.put(userId, 'timer', TIMER_RECORD_ID, timer))
+      .catch((e) => console.error("Falha ao salvar o timer.", e));
+  }, [timer, dataLoaded]);
+
+  // Records written by another tab (or pulled from the backend) are read back from the shared storage and merged into the local state
+  const applyRemoteRecords = async (collection: UserCollection, putIds: string[], deletedIds: string[]) => {
+    const writers = writersRef.current;
+    if (!writers || !user) return;
+    const storage = await getStorage();
+    const records = (await Promise.all(putIds.map(id => storage.get<any>(user.id, collection, id)))).filter(r => r !== undefined);
+    if (writersRef.current !== writers) return;
+
+    // The merges also tell the writers what is already stored, hence the writer argument
+    switch (collection) {
+      case 'sessions':
+        setSessions(prev => mergeRemoteRecords(prev, records, deletedIds, writers.sessions, s => s.id, RECORD_MERGES.sessions));
+        break;
+      case 'maps':
+        setMentalMaps(prev => mergeRemoteRecords(prev, records, deletedIds, writers.maps, m => m.id, RECORD_MERGES.maps)
+          .sort(byTime<MentalMapItem>(m => m.createdAt)).reverse());
+        break;
+      case 'ledger':
+        setLedger(prev => mergeRemoteRecords(prev, records, deletedIds, writers.ledger, e => e.id, RECORD_MERGES.ledger)
+          .sort(byTime(e => e.timestamp)));
+        break;
+      case 'stats':
+        setUserStats(prev => mergeRemoteRecords([prev], records, [], writers.stats, () => STATS_RECORD_ID, RECORD_MERGES.stats)[0]);
+        break;
+      case 'focus':
+        setFocusLog(prev => mergeRemoteRecords(prev, records, deletedIds, writers.focus, s => s.id, RECORD_MERGES.focus)
+          .sort(byTime(s => s.startedAt)));
+        break;
+    }
+  };
+
+  applyRemoteRecordsRef.current = applyRemoteRecords;
+  syncHandlerRef.current = (message: SyncMessage) => {
+    switch (message.type) {
+      case 'records':
+        if (dataLoaded) applyRemoteRecords(message.collection, message.put, message.delete).catch((e) => console.error("Falha ao sincronizar com outra aba.", e));
+        // Writes of the other tabs reach the backend through the tab that syncs
+        syncEngineRef.current?.track(message.collection, [...message.put, ...message.delete]);
+        break;
+      case 'timer':
+        if (!timerSharedRef.current) break;
+        remoteTimerRef.current = message.timer;
+        setTimer(message.timer);
+        break;
+      case 'sync-status':
+        if (!syncEngineRef.current) setSyncStatus(message.status);
+        break;
+      case 'sync-request':
+        syncEngineRef.current?.syncNow();
+        break;
+      case 'hello':
+        if (timerSharedRef.current && isTimerOwner) syncRef.current?.publishTimer(timer);
+        if (syncEngineRef.current && syncStatus) syncRef.current?.publishSyncStatus(syncStatus);
+        break;
     }
+  };
+
+  // The remaining time is computed from the timestamps; ticks only refresh the clock, so a throttled tab does not drift
+  const timerRunning = isRunning(timer);
+  useEffect(() => {
+    if (!timerRunning) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(interval);
-  }, [timer.isActive]);
+  }, [timerRunning]);
+
+  useEffect(() => {
+    const refresh = () => {
+      if (document.visibilityState === 'visible') setNow(Date.now());
+    };
+    document.addEventListener('visibilitychange', refresh);
+    return () => document.removeEventListener('visibilitychange', refresh);
+  }, []);
+
+  // Only the elected tab completes the timer, advances programs, awards their cycles and rings; the others receive the new state
+  useEffect(() => {
+    if (!isTimerOwner) return;
+    const { timer: advanced, completedCycles } = advanceTimer(timer, now);
+    if (advanced === timer) return;
+    setTimer(advanced);
+    const { program, deliverable } = timer;
+    if (program) completedCycles.forEach(cycle => addPoints(
+      FOCUS_CYCLE_POINTS,
+      `${program.name} · ciclo ${cycle} de ${program.totalCycles}: ${deliverable}`,
+      { source: 'timer', category: 'FOCUS_CYCLE' }
+    ));
+    const audio = new Audio('https://assets.mixkit.co/sfx/preview/mixkit-alarm-digital-clock-beep-989.mp3');
+    audio.volume = 1.0;
+    audio.play().catch(console.error);
+  }, [timer, now, isTimerOwner]);
 
   const NavItem = ({ view, icon: Icon, label }: { view: AppView, icon: any, label: string }) => (
     <button
@@ -241,7 +552,7 @@ const App: React.FC = () => {
     >
       <Icon size={18} />
       <span>{label}</span>
-      {view === AppView.TIMER && timer.isActive && (
+      {view === AppView.TIMER && timerRunning && (
         <span className="ml-auto w-2 h-2 rounded-full bg-green-500 animate-pulse" />
       )}
     </button>
@@ -264,9 +575,13 @@ const App: React.FC = () => {
                <p className="text-[#9FB4C7] text-sm mt-2">Identidade Verificada. Evolução Contínua.</p>
             </div>
 
+            {authMode === 'FORGOT' ? (
+              <PasswordReset onBack={(notice) => switchAuthMode('LOGIN', notice)} onRecovered={enterApp} />
+            ) : (
+            <>
             <div className="flex bg-[#050505] rounded-lg p-1 mb-6 border border-[#333]">
-              <button onClick={() => { setAuthMode('LOGIN'); setAuthError(''); }} className={`flex-1 py-3 text-xs font-bold uppercase tracking-widest rounded transition-all ${authMode === 'LOGIN' ? 'bg-[#333] text-white shadow' : 'text-[#555]'}`}>Login</button>
-              <button onClick={() => { setAuthMode('REGISTER'); setAuthError(''); }} className={`flex-1 py-3 text-xs font-bold uppercase tracking-widest rounded transition-all ${authMode === 'REGISTER' ? 'bg-[#E50914] text-white shadow' : 'text-[#555]'}`}>Criar Conta</button>
+              <button onClick={() => switchAuthMode('LOGIN')} className={`flex-1 py-3 text-xs font-bold uppercase tracking-widest rounded transition-all ${authMode === 'LOGIN' ? 'bg-[#333] text-white shadow' : 'text-[#555]'}`}>Login</button>
+              <button onClick={() => switchAuthMode('REGISTER')} className={`flex-1 py-3 text-xs font-bold uppercase tracking-widest rounded transition-all ${authMode === 'REGISTER' ? 'bg-[#E50914] text-white shadow' : 'text-[#555]'}`}>Criar Conta</button>
             </div>
 
             {authError && (
@@ -275,6 +590,11 @@ const App: React.FC = () => {
                  <p className="text-xs text-[#E50914] font-bold">{authError}</p>
               </div>
             )}
+            {authNotice && !authError && (
+              <div className="mb-4 bg-green-900/20 border border-green-900/50 p-3 rounded">
+                 <p className="text-xs text-green-500 font-bold">{authNotice}</p>
+              </div>
+            )}
 
             <form onSubmit={authMode === 'LOGIN' ? handleLogin : handleRegister} className="space-y-4">
                  {authMode === 'REGISTER' && (
@@ -287,15 +607,35 @@ const App: React.FC = () => {
                    {isLoadingAuth ? <Loader2 className="animate-spin" /> : authMode === 'LOGIN' ? <><LogIn size={18} /> Acessar Sistema</> : <><UserPlus size={18} /> Criar Identidade</>}
                  </button>
             </form>
+            {authMode === 'LOGIN' && (
+              <button onClick={() => switchAuthMode('FORGOT')} className="w-full text-center text-[#555] hover:text-white text-xs font-mono uppercase mt-4">Esqueci minha senha</button>
+            )}
+            </>
+            )}
          </div>
       </div>
     );
   }
 
+  // --- LOAD FAILURE ---
+  if (user?.id && loadError) {
+      return (
+          <div className="flex h-[100dvh] bg-[#0A0A0A] items-center justify-center text-white p-6">
+             <div className="max-w-sm w-full text-center space-y-4">
+                <AlertCircle className="mx-auto text-[#E50914]" size={40} />
+                <h2 className="text-[#E50914] font-bold uppercase tracking-widest text-sm">Falha ao carregar seus dados</h2>
+                <p className="text-[#9FB4C7] text-sm">{loadError}</p>
+                <div className="flex gap-3 justify-center">
+                   <button onClick={retryLoad} className="px-4 py-2 bg-[#E50914] hover:bg-red-700 text-white text-xs font-bold uppercase rounded transition-colors">Tentar novamente</button>
+                   <button onClick={() => handleLogout()} className="px-4 py-2 border border-[#555] hover:border-white text-[#9FB4C7] text-xs font-bold uppercase rounded transition-colors flex items-center gap-2"><Lock size={12} /> Encerrar Sessão</button>
+                </div>
+             </div>
+          </div>
+      );
+  }
+
   // --- LOADING STATE FOR AUTHENTICATED USERS ---
-  // Only show this if sessions are truly empty AND we are waiting for the effect to populate them.
-  // With the fix above, the effect will populate them almost instantly or force a default, breaking this loop.
-  if (user?.id && sessions.length === 0) {
+  if (user?.id && !dataLoaded) {
       return (
           <div className="flex h-[100dvh] bg-[#0A0A0A] items-center justify-center text-white">
              <div className="flex flex-col items-center gap-4 animate-pulse">
@@ -311,7 +651,9 @@ const App: React.FC = () => {
   // --- APP VIEW ---
   return (
     <div className="flex h-[100dvh] bg-[#0A0A0A] overflow-hidden font-sans text-white relative">
-      <ProgressionModal isOpen={progressionModalOpen} onClose={() => setProgressionModalOpen(false)} currentPoints={userStats.points} />
+      <ProgressionModal isOpen={progressionModalOpen} onClose={() => setProgressionModalOpen(false)} stats={userStats} ledger={ledger} onReverseEntry={reverseEntry} onStartNewCycle={startNewCycle} />
+      {user && <AccountModal isOpen={accountModalOpen} onClose={() => setAccountModalOpen(false)} user={user} onRecoveryCode={setRecoveryCode} onAccountDeleted={handleAccountDeleted} currentData={{ sessions, maps: mentalMaps, stats: userStats, ledger, focus: focusLog }} onImportBackup={importBackup} />}
+      {recoveryCode && <RecoveryCodeModal code={recoveryCode} onClose={() => setRecoveryCode(null)} />}
 
       {/* Sidebar Overlay */}
       {sidebarOpen && <div className="fixed inset-0 bg-black/80 z-30 md:hidden backdrop-blur-sm" onClick={() => setSidebarOpen(false)} />}
@@ -330,6 +672,13 @@ const App: React.FC = () => {
              <div className="flex flex-col">
                 <span className="text-[#FFD700] text-xs font-bold tracking-wide truncate max-w-[150px]">{user?.name}</span>
                 <span className="text-[#555] text-[10px] font-mono tracking-widest uppercase truncate max-w-[150px]">ID: {user?.id?.substring(0, 6)}...</span>
+                {authSource && (
+                  <span className={`text-[10px] font-mono tracking-widest uppercase flex items-center gap-1 ${authSource === 'remote' ? 'text-green-500' : 'text-[#9FB4C7]'}`}>
+                    {authSource === 'remote' ? <Cloud size={10} /> : <HardDrive size={10} />}
+                    {authSource === 'remote' ? 'Servidor' : 'Local'}
+                  </span>
+                )}
+                {syncStatus && <SyncStatusBadge status={syncStatus} onRetry={requestSync} />}
              </div>
           </div>
           <button onClick={() => setSidebarOpen(false)} className="md:hidden ml-auto text-[#9FB4C7]"><X size={24} /></button>
@@ -340,11 +689,18 @@ const App: React.FC = () => {
            <div className="flex justify-between items-start mb-4 relative z-10">
               <div>
                   <span className="text-xs text-[#9FB4C7] uppercase font-mono block">Patente</span>
-                  <span className="text-white font-bold uppercase tracking-wider text-sm">{userStats.points < 500 ? "Iniciado" : userStats.points < 2500 ? "Aprendiz" : "Lenda"}</span>
+                  <span className="text-white font-bold uppercase tracking-wider text-sm">{getRank(userStats.points).label}</span>
               </div>
-              <EagleEmblem points={userStats.points} size="sm" />
+              <EagleEmblem points={userStats.points} prestige={userStats.prestige} size="sm" />
+           </div>
+           <div className="flex justify-between items-center mb-2 relative z-10 text-[10px] font-mono uppercase tracking-widest">
+              <span className={`flex items-center gap-1 font-bold ${userStats.streak > 0 ? 'text-[#E50914]' : 'text-[#555]'}`}><Flame size={12} /> {userStats.streak} {userStats.streak === 1 ? 'dia' : 'dias'}</span>
+              <span className="text-[#555]">Recorde: {userStats.bestStreak}</span>
            </div>
-           <div className="w-full bg-[#333] h-1.5 rounded-full overflow-hidden relative z-10"><div className="bg-[#E50914] h-full transition-all duration-500" style={{ width: `${(userStats.points % 500) / 5}%` }} /></div>
+           <div className="w-full bg-[#333] h-1.5 rounded-full overflow-hidden relative z-10"><div className="bg-[#E50914] h-full transition-all duration-500" style={{ width: `${getRankProgress(userStats.points)}%` }} /></div>
+           {canPrestige(userStats.points) && (
+              <p className="text-[10px] text-[#FFD700] font-bold uppercase tracking-widest mt-3 animate-pulse relative z-10">Novo ciclo disponível</p>
+           )}
         </div>
 
         <nav className="flex-1 p-4 space-y-2 overflow-y-auto scrollbar-thin scrollbar-thumb-[#333]">
@@ -354,10 +710,12 @@ const App: React.FC = () => {
           <NavItem view={AppView.HISTORY} icon={Clock} label="Histórico" />
           <NavItem view={AppView.MAPS} icon={Map} label="Mapas Mentais" />
           <NavItem view={AppView.TIMER} icon={Timer} label="Execução" />
+          <NavItem view={AppView.ANALYTICS} icon={BarChart3} label="Desempenho" />
         </nav>
 
         <div className="p-6 border-t border-[#9FB4C7]/20 shrink-0">
-           <button onClick={handleLogout} className="w-full text-center text-[#555] hover:text-white text-xs font-mono uppercase mb-2 flex items-center justify-center gap-2"><Lock size={10} /> Encerrar Sessão</button>
+           <button onClick={() => { setAccountModalOpen(true); setSidebarOpen(false); }} className="w-full text-center text-[#555] hover:text-white text-xs font-mono uppercase mb-3 flex items-center justify-center gap-2"><UserCog size={10} /> Conta</button>
+           <button onClick={() => handleLogout()} className="w-full text-center text-[#555] hover:text-white text-xs font-mono uppercase mb-2 flex items-center justify-center gap-2"><Lock size={10} /> Encerrar Sessão</button>
         </div>
       </div>
 
@@ -372,11 +730,21 @@ const App: React.FC = () => {
            <button onClick={() => setSidebarOpen(true)} className="text-white"><Menu size={24} /></button>
         </div>
         <main className="flex-1 overflow-hidden relative flex flex-col">
+           {/* Achievement Unlock Toast */}
+           {achievementToast && (
+             <div className="absolute bottom-24 left-1/2 -translate-x-1/2 z-50 pointer-events-none animate-in slide-in-from-bottom-2">
+               <div className="bg-[#0A0A0A] text-white font-bold px-6 py-3 rounded-full shadow-[0_0_20px_rgba(255,215,0,0.4)] flex items-center gap-2 border border-[#FFD700]">
+                 <Medal size={20} className="text-[#FFD700]" />
+                 <span className="uppercase tracking-wider text-sm">Conquista: {achievementToast.title}</span>
+               </div>
+             </div>
+           )}
            {user?.id ? (
              currentView === AppView.CHAT ? <ChatInterface activeSession={getActiveSession()} onUpdateSession={updateSession} onAwardPoints={addPoints} /> :
-             currentView === AppView.VOICE ? <LiveVoice /> :
+             currentView === AppView.VOICE ? <LiveVoice onSessionStart={() => setUserStats(prev => ({ ...prev, voiceSessions: prev.voiceSessions + 1 }))} onAwardPoints={addPoints} /> :
              currentView === AppView.MAPS ? <MentalMap history={mentalMaps} onSave={saveMentalMap} /> :
-             currentView === AppView.TIMER ? <ExecutionTimer timer={timer} updateTimer={updateTimer} onComplete={addPoints} /> :
+             currentView === AppView.TIMER ? <ExecutionTimer timer={timer} now={now} updateTimer={updateTimer} onComplete={(amount, reason) => addPoints(amount, reason, { source: 'timer' })} onSessionEnd={(session) => setFocusLog(prev => [...prev, session])} /> :
+             currentView === AppView.ANALYTICS ? <FocusAnalytics log={focusLog} /> :
              currentView === AppView.HISTORY ? <ChatHistory sessions={sessions} currentSessionId={activeSessionId} onSelectSession={(id) => { setActiveSessionId(id); setCurrentView(AppView.CHAT); }} onNewChat={createNewSession} userPoints={userStats.points} /> : null
            ) : null}
         </main>
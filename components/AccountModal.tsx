@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { X, UserCog, KeyRound, AlertCircle, CheckCircle2, Loader2, Download, Trash2 } from 'lucide-react';
+import BackupImport from './BackupImport';
+import { AccountArchive, UserProfile } from '../types';
+import { authService } from '../services/authService';
+import { archiveFileName, deleteAccount, exportAccount } from '../services/accountService';
+import { RestoreMode, UserDataSnapshot } from '../services/backupService';
+
+interface AccountModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  user: UserProfile;
+  /** Called when a local account received a recovery code it did not have. */
+  onRecoveryCode: (code: string) => void;
+  /** The account and its data are gone; the app must sign out. */
+  onAccountDeleted: () => void;
+  currentData: UserDataSnapshot;
+  onImportBackup: (archive: AccountArchive, mode: RestoreMode) => void;
+}
+
+const INPUT_CLASS = "w-full bg-[#050505] border border-[#333] rounded-lg p-3 text-white focus:outline-none focus:border-[#E50914] font-mono text-sm";
+
+const AccountModal: React.FC<AccountModalProps> = ({ isOpen, onClose, user, onRecoveryCode, onAccountDeleted, currentData, onImportBackup }) => {
+  const [currentPass, setCurrentPass] = useState('');
+  const [newPass, setNewPass] = useState('');
+  const [confirmPass, setConfirmPass] = useState('');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState('');
+  const [deletePass, setDeletePass] = useState('');
+  const [deleteError, setDeleteError] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  if (!isOpen) return null;
+
+  const handleClose = () => {
+    setCurrentPass('');
+    setNewPass('');
+    setConfirmPass('');
+    setError('');
+    setSuccess(false);
+    setExportError('');
+    setDeletePass('');
+    setDeleteError('');
+    onClose();
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSuccess(false);
+    if (newPass !== confirmPass) {
+      setError('As senhas não conferem.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { recoveryCode } = await authService.changePassword(currentPass, newPass);
+      setCurrentPass('');
+      setNewPass('');
+      setConfirmPass('');
+      setSuccess(true);
+      if (recoveryCode) onRecoveryCode(recoveryCode);
+    } catch (err: any) {
+      setError(err.message || 'Falha ao alterar a senha.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setExportError('');
+    setIsExporting(true);
+    try {
+      const archive = await exportAccount(user);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = archiveFileName(archive);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setExportError(err.message || 'Falha ao exportar os dados.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm('Excluir a conta permanentemente? Conversas, mapas, pontuação e conquistas serão apagados e não poderão ser recuperados.')) return;
+
+    setDeleteError('');
+    setIsDeleting(true);
+    try {
+      await deleteAccount(deletePass);
+      onAccountDeleted();
+    } catch (err: any) {
+      setDeleteError(err.message || 'Falha ao excluir a conta.');
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-[#0A0A0A] w-full max-w-lg rounded-2xl border border-[#333] shadow-[0_0_50px_rgba(0,0,0,0.8)] overflow-hidden flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="p-6 border-b border-[#333] flex justify-between items-start shrink-0">
+          <div>
+            <h2 className="text-2xl font-bold uppercase tracking-widest text-white flex items-center gap-2">
+               <UserCog className="text-[#9FB4C7]" />
+               Conta
+            </h2>
+            <p className="text-[#9FB4C7] text-sm font-mono mt-1 truncate">{user.email}</p>
+          </div>
+          <button onClick={handleClose} className="text-[#555] hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          <h3 className="text-xs text-[#555] uppercase font-bold tracking-widest mb-4 flex items-center gap-2"><KeyRound size={12} /> Alterar Senha</h3>
+
+          {error && (
+            <div className="mb-4 bg-red-900/20 border border-red-900/50 p-3 rounded flex items-center gap-2">
+               <AlertCircle size={16} className="text-[#E50914]" />
+               <p className="text-xs text-[#E50914] font-bold">{error}</p>
+            </div>
+          )}
+          {success && (
+            <div className="mb-4 bg-green-900/20 border border-green-900/50 p-3 rounded flex items-center gap-2">
+               <CheckCircle2 size={16} className="text-green-500" />
+               <p className="text-xs text-green-500 font-bold">Senha alterada.</p>
+            </div>
+          )}
+
+          <form onSubmit={handleChangePassword} className="space-y-3">
+            <input type="password" value={currentPass} onChange={e => setCurrentPass(e.target.value)} placeholder="Senha atual" className={INPUT_CLASS} required autoComplete="current-password" />
+            <input type="password" value={newPass} onChange={e => setNewPass(e.target.value)} placeholder="Nova senha" className={INPUT_CLASS} required minLength={6} autoComplete="new-password" />
+            <input type="password" value={confirmPass} onChange={e => setConfirmPass(e.target.value)} placeholder="Confirme a nova senha" className={INPUT_CLASS} required minLength={6} autoComplete="new-password" />
+            <button type="submit" disabled={isSaving} className="w-full bg-[#E50914] hover:bg-red-700 disabled:opacity-50 text-white font-bold py-3 rounded-lg uppercase tracking-widest text-xs transition-all flex items-center justify-center gap-2">
+              {isSaving ? <Loader2 className="animate-spin" size={16} /> : 'Salvar Nova Senha'}
+            </button>
+          </form>
+
+          <h3 className="text-xs text-[#555] uppercase font-bold tracking-widest mt-8 mb-2 flex items-center gap-2"><Download size={12} /> Seus Dados</h3>
+          <p className="text-[#9FB4C7] text-xs mb-3">Perfil, conversas, mapas mentais, estatísticas e extrato de pontos em um único arquivo JSON. Importe o arquivo em outro dispositivo para levar seu progresso.</p>
+          {exportError && <p className="text-xs text-[#E50914] font-bold mb-3">{exportError}</p>}
+          <button onClick={handleExport} disabled={isExporting} className="w-full mb-3 border border-[#333] hover:border-[#9FB4C7]/50 disabled:opacity-50 text-[#9FB4C7] hover:text-white py-3 rounded-lg text-xs font-bold uppercase tracking-widest transition-all flex items-center justify-center gap-2">
+            {isExporting ? <Loader2 className="animate-spin" size={16} /> : <><Download size={14} /> Exportar Dados</>}
+          </button>
+          <BackupImport currentData={currentData} onImport={onImportBackup} />
+
+          <div className="mt-8 border border-red-900/50 bg-red-900/10 rounded-lg p-4">
+            <h3 className="text-xs text-[#E50914] uppercase font-bold tracking-widest mb-2 flex items-center gap-2"><Trash2 size={12} /> Excluir Conta</h3>
+            <p className="text-[#9FB4C7] text-xs mb-3">Remove a conta{authService.getAuthSource() === 'remote' ? ' do servidor e ' : ' e '}todos os dados deste dispositivo. Esta ação é irreversível.</p>
+            {deleteError && <p className="text-xs text-[#E50914] font-bold mb-3">{deleteError}</p>}
+            <form onSubmit={handleDelete} className="space-y-3">
+              <input type="password" value={deletePass} onChange={e => setDeletePass(e.target.value)} placeholder="Confirme com sua senha" className={INPUT_CLASS} required autoComplete="current-password" />
+              <button type="submit" disabled={isDeleting} className="w-full bg-transparent border border-[#E50914] hover:bg-[#E50914] disabled:opacity-50 text-[#E50914] hover:text-white font-bold py-3 rounded-lg uppercase tracking-widest text-xs transition-all flex items-center justify-center gap-2">
+                {isDeleting ? <Loader2 className="animate-spin" size={16} /> : 'Excluir Permanentemente'}
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountModal;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Zap, Timer, Mic, Flame, Network, TrendingUp, Crown, Medal, Lock } from 'lucide-react';
+import { Achievement } from '../types';
+import { ACHIEVEMENT_CATALOG } from '../services/achievementService';
+import EagleEmblem from './EagleEmblem';
+
+interface AchievementGalleryProps {
+  achievements: Achievement[];
+}
+
+const ACHIEVEMENT_ICONS: Record<string, any> = { Zap, Timer, Mic, Flame, Network, TrendingUp, Crown };
+
+const AchievementGallery: React.FC<AchievementGalleryProps> = ({ achievements }) => {
+  const unlocked = new Map(achievements.map(a => [a.id, a]));
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+      {ACHIEVEMENT_CATALOG.map((rule) => {
+        const achievement = unlocked.get(rule.id);
+        const Icon = ACHIEVEMENT_ICONS[rule.icon] || Medal;
+
+        return (
+          <div
+            key={rule.id}
+            className={`flex items-center gap-4 p-4 rounded-lg border bg-[#0F0F0F] transition-all ${achievement ? 'border-[#E50914]/30 shadow-lg' : 'border-[#333] opacity-60'}`}
+          >
+            <div className="relative shrink-0">
+              <EagleEmblem points={rule.emblemPoints} size="md" locked={!achievement} />
+              <div className="absolute inset-0 flex items-center justify-center">
+                {achievement ? <Icon size={16} className="text-white" /> : <Lock size={14} className="text-[#555]" />}
+              </div>
+            </div>
+            <div className="min-w-0">
+              <p className={`text-sm font-bold uppercase tracking-wider ${achievement ? 'text-white' : 'text-[#777]'}`}>{rule.title}</p>
+              <p className="text-xs text-[#9FB4C7]">{rule.description}</p>
+              <p className="text-[10px] text-[#555] font-mono uppercase tracking-widest mt-1">
+                {achievement ? `Desbloqueado em ${achievement.unlockedAt.toLocaleDateString('pt-BR')}` : 'Bloqueado'}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AchievementGallery;
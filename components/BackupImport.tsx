@@ -0,0 +1,120 @@
+import React, { useRef, useState } from 'react';
+import { Upload, AlertCircle, CheckCircle2, GitMerge, Replace } from 'lucide-react';
+import { AccountArchive } from '../types';
+import { BackupPreview, RestoreMode, UserDataSnapshot, parseArchive, previewBackup } from '../services/backupService';
+
+interface BackupImportProps {
+  currentData: UserDataSnapshot;
+  onImport: (archive: AccountArchive, mode: RestoreMode) => void;
+}
+
+const PreviewRow: React.FC<{ label: string; value: number | string; added?: number }> = ({ label, value, added }) => (
+  <div className="flex justify-between text-xs font-mono">
+    <span className="text-[#555] uppercase">{label}</span>
+    <span className="text-white">
+      {value}
+      {added !== undefined && <span className={added > 0 ? 'text-green-500' : 'text-[#555]'}> (+{added} novos)</span>}
+    </span>
+  </div>
+);
+
+const BackupImport: React.FC<BackupImportProps> = ({ currentData, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [archive, setArchive] = useState<AccountArchive | null>(null);
+  const [preview, setPreview] = useState<BackupPreview | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [error, setError] = useState('');
+  const [done, setDone] = useState(false);
+
+  const reset = () => {
+    setArchive(null);
+    setPreview(null);
+    setMode('merge');
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError('');
+    setDone(false);
+    try {
+      const parsed = parseArchive(await file.text());
+      setArchive(parsed);
+      setPreview(previewBackup(parsed, currentData));
+    } catch (err: any) {
+      reset();
+      setError(err.message || 'Não foi possível ler o arquivo.');
+    }
+  };
+
+  const handleRestore = () => {
+    if (!archive) return;
+    if (mode === 'replace' && !confirm('Substituir todos os dados atuais pelo backup? Conversas, mapas e pontos que não estão no arquivo serão perdidos.')) return;
+    onImport(archive, mode);
+    reset();
+    setDone(true);
+  };
+
+  return (
+    <div>
+      {error && (
+        <div className="mb-3 bg-red-900/20 border border-red-900/50 p-3 rounded flex items-center gap-2">
+           <AlertCircle size={16} className="text-[#E50914] shrink-0" />
+           <p className="text-xs text-[#E50914] font-bold break-words">{error}</p>
+        </div>
+      )}
+      {done && (
+        <div className="mb-3 bg-green-900/20 border border-green-900/50 p-3 rounded flex items-center gap-2">
+           <CheckCircle2 size={16} className="text-green-500" />
+           <p className="text-xs text-green-500 font-bold">Backup restaurado.</p>
+        </div>
+      )}
+
+      <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+
+      {!preview ? (
+        <button onClick={() => fileInputRef.current?.click()} className="w-full border border-[#333] hover:border-[#9FB4C7]/50 text-[#9FB4C7] hover:text-white py-3 rounded-lg text-xs font-bold uppercase tracking-widest transition-all flex items-center justify-center gap-2">
+          <Upload size={14} /> Importar Backup
+        </button>
+      ) : (
+        <div className="bg-[#111] border border-[#333] rounded-lg p-4 space-y-3">
+          <div>
+            <p className="text-white text-sm font-bold truncate">{preview.profile.name} · {preview.profile.email}</p>
+            <p className="text-[#555] text-[10px] font-mono uppercase">Exportado em {preview.exportedAt.toLocaleString()}</p>
+            {!preview.sameAccount && (
+              <p className="text-[#FFD700] text-[10px] font-bold uppercase mt-1">Backup de outra conta: os dados serão trazidos para a conta atual.</p>
+            )}
+          </div>
+
+          <div className="space-y-1 border-t border-[#333] pt-3">
+            <PreviewRow label="Conversas" value={preview.sessions} added={mode === 'merge' ? preview.newSessions : undefined} />
+            <PreviewRow label="Mapas" value={preview.maps} added={mode === 'merge' ? preview.newMaps : undefined} />
+            <PreviewRow label="Registros de pontos" value={preview.ledgerEntries} added={mode === 'merge' ? preview.newLedgerEntries : undefined} />
+            <PreviewRow label="Sessões de foco" value={preview.focusSessions} added={mode === 'merge' ? preview.newFocusSessions : undefined} />
+            <PreviewRow label="Pontos (ciclo)" value={`${preview.points} PTS`} />
+            <PreviewRow label="Pontos (total)" value={`${preview.lifetimePoints} PTS`} />
+            <PreviewRow label="Conquistas" value={preview.achievements} />
+          </div>
+
+          <div className="flex bg-[#050505] rounded-lg p-1 border border-[#333]">
+            <button onClick={() => setMode('merge')} className={`flex-1 py-2 text-[10px] font-bold uppercase tracking-widest rounded transition-all flex items-center justify-center gap-1 ${mode === 'merge' ? 'bg-[#333] text-white shadow' : 'text-[#555]'}`}><GitMerge size={12} /> Mesclar</button>
+            <button onClick={() => setMode('replace')} className={`flex-1 py-2 text-[10px] font-bold uppercase tracking-widest rounded transition-all flex items-center justify-center gap-1 ${mode === 'replace' ? 'bg-[#E50914] text-white shadow' : 'text-[#555]'}`}><Replace size={12} /> Substituir</button>
+          </div>
+          <p className="text-[#9FB4C7] text-[10px]">
+            {mode === 'merge'
+              ? 'Mantém os dados atuais e adiciona o que falta. Itens repetidos são unificados; a pontuação é recalculada pelo extrato.'
+              : 'Descarta os dados atuais e usa apenas o conteúdo do backup.'}
+          </p>
+
+          <div className="flex gap-2">
+            <button onClick={reset} className="flex-1 border border-[#333] text-[#555] hover:text-white py-3 rounded-lg text-xs font-bold uppercase tracking-widest transition-all">Cancelar</button>
+            <button onClick={handleRestore} className="flex-1 bg-[#E50914] hover:bg-red-700 text-white py-3 rounded-lg text-xs font-bold uppercase tracking-widest transition-all">Restaurar</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupImport;
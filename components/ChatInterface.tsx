@@ -1,11 +1,12 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Message, ChatSession } from '../types';
-import { generateTextResponse } from '../services/geminiService';
-import { Send, User, Bot, Loader2, Zap, AlertTriangle } from 'lucide-react';
+import { Message, ChatSession, LedgerEntry } from '../types';
+import { AwardMeta } from '../services/ledgerService';
+import { streamTextResponse } from '../services/geminiService';
+import { Send, User, Bot, Loader2, Zap, AlertTriangle, Square, TrendingDown } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 
 interface ChatInterfaceProps {
-  onAwardPoints: (amount: number, reason: string) => void;
+  onAwardPoints: (amount: number, reason: string, meta: AwardMeta) => LedgerEntry | null;
   activeSession: ChatSession;
   onUpdateSession: (updatedSession: ChatSession) => void;
 }
@@ -13,9 +14,14 @@ interface ChatInterfaceProps {
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ onAwardPoints, activeSession, onUpdateSession }) => {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [pointNotification, setPointNotification] = useState<{amount: number, reason: string} | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Abort any in-flight generation when the chat unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -23,7 +29,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onAwardPoints, activeSess
 
   useEffect(() => {
     scrollToBottom();
-  }, [activeSession.messages, isLoading, error]);
+  }, [activeSession.messages, isLoading, streamingText, error]);
 
   // Effect to clear notification
   useEffect(() => {
@@ -62,62 +68,90 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onAwardPoints, activeSess
 
     setInput('');
     setIsLoading(true);
+    setStreamingText('');
     setError(null);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
       // Generate history EXCLUDING the last message we just added
       const history = updatedMessages.slice(0, -1).map(m => ({
         role: m.role,
-        parts: [{ text: m.text }]
+        parts: [{ text: m.text }],
+        ...(m.awards && { awards: m.awards })
       }));
 
-      const rawResponse = await generateTextResponse(history, userMsg.text);
+      const response = await streamTextResponse(
+        history,
+        userMsg.text,
+        (accumulated) => setStreamingText(accumulated),
+        controller.signal
+      );
 
-      if (rawResponse) {
-        // Parse for Gamification Tags: <<<POINTS:Amount:Reason>>>
-        let cleanText = rawResponse;
-        const pointsRegex = /<<<POINTS:(\-?\d+):([^>]+)>>>/g;
-        let match;
-        
-        while ((match = pointsRegex.exec(rawResponse)) !== null) {
-          const amount = parseInt(match[1]);
-          const reason = match[2];
-          onAwardPoints(amount, reason);
-          setPointNotification({ amount, reason });
-        }
+      const cleanText = response.text.trim();
+      // Stopped before anything arrived
+      if (!cleanText && response.awards.length === 0) return;
 
-        // Remove tags from display text
-        cleanText = rawResponse.replace(pointsRegex, '').trim();
+      // A reply made only of awards still gets its message, so each ledger entry points to an existing one
+      const botMsg: Message = {
+        id: (Date.now() + 1).toString(),
+        role: 'model',
+        text: cleanText,
+        timestamp: new Date(),
+        ...(response.awards.length > 0 && { awards: response.awards })
+      };
 
-        const botMsg: Message = {
-          id: (Date.now() + 1).toString(),
-          role: 'model',
-          text: cleanText,
-          timestamp: new Date()
-        };
-        
-        onUpdateSession({
-            ...activeSession,
-            messages: [...updatedMessages, botMsg],
-            title: updatedTitle,
-            lastModified: new Date()
+      // Awards arrive as award_points function calls, never inside the text
+      for (const award of response.awards) {
+        const entry = onAwardPoints(award.amount, award.reason, {
+          source: 'chat',
+          category: award.category,
+          sessionId: activeSession.id,
+          messageId: botMsg.id
         });
+        // Awards refused by the policy only show up in the ledger
+        if (entry && !entry.rejection) {
+          setPointNotification({ amount: entry.amount, reason: entry.reason });
+        }
       }
+
+      onUpdateSession({
+          ...activeSession,
+          messages: [...updatedMessages, botMsg],
+          title: updatedTitle,
+          lastModified: new Date()
+      });
     } catch (error: any) {
       console.error("Chat Error:", error);
       setError(error.message || "Falha na comunicação com o Mentor.");
       // Optional: Remove the user message if it failed? No, keep it so they can copy/paste.
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      setStreamingText('');
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   return (
     <div className="flex flex-col h-full bg-[#0A0A0A] text-white relative w-full overflow-hidden">
       
       {/* Point Notification Toast */}
       {pointNotification && (
         <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 animate-bounce pointer-events-none">
+          {pointNotification.amount < 0 ? (
+          <div className="bg-[#E50914] text-white font-bold px-6 py-3 rounded-full shadow-[0_0_20px_#E50914] flex items-center gap-2 border border-black">
+            <TrendingDown size={20} />
+            <span>{pointNotification.amount} PTS</span>
+            <span className="font-normal text-xs uppercase opacity-80 border-l border-white/20 pl-2 ml-1">
+              {pointNotification.reason}
+            </span>
+          </div>
+          ) : (
           <div className="bg-[#FFD700] text-black font-bold px-6 py-3 rounded-full shadow-[0_0_20px_#FFD700] flex items-center gap-2 border border-white">
             <Zap size={20} className="fill-black" />
             <span>+{pointNotification.amount} PTS</span>
@@ -125,6 +159,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onAwardPoints, activeSess
               {pointNotification.reason}
             </span>
           </div>
+          )}
         </div>
       )}
 
@@ -148,14 +183,33 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onAwardPoints, activeSess
                   {msg.role === 'user' ? 'Você' : 'O Mentor'}
                 </span>
               </div>
-              <div className="prose prose-invert prose-sm prose-p:leading-relaxed prose-strong:text-[#FFD700] prose-headings:text-white prose-a:text-[#E50914] break-words">
-                <ReactMarkdown>{msg.text}</ReactMarkdown>
-              </div>
+              {msg.text ? (
+                <div className="prose prose-invert prose-sm prose-p:leading-relaxed prose-strong:text-[#FFD700] prose-headings:text-white prose-a:text-[#E50914] break-words">
+                  <ReactMarkdown>{msg.text}</ReactMarkdown>
+                </div>
+              ) : (
+                <p className="text-xs text-[#9FB4C7] font-mono uppercase tracking-wider">Pontuação registrada no extrato.</p>
+              )}
             </div>
           </div>
         ))}
         
-        {isLoading && (
+        {isLoading && streamingText && (
+          <div className="flex justify-start">
+            <div className="max-w-[90%] sm:max-w-[85%] md:max-w-[70%] rounded-lg p-4 sm:p-5 shadow-lg bg-[#0F0F0F] border-l-2 border-[#E50914]">
+              <div className="flex items-center gap-2 mb-3 opacity-60 border-b border-[#333] pb-2">
+                <Bot size={14} className="text-[#E50914]" />
+                <span className="text-[10px] font-bold uppercase tracking-widest text-[#9FB4C7]">O Mentor</span>
+                <Loader2 className="animate-spin text-[#E50914] ml-auto" size={12} />
+              </div>
+              <div className="prose prose-invert prose-sm prose-p:leading-relaxed prose-strong:text-[#FFD700] prose-headings:text-white prose-a:text-[#E50914] break-words">
+                <ReactMarkdown>{streamingText}</ReactMarkdown>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {isLoading && !streamingText && (
           <div className="flex justify-start">
              <div className="bg-[#0F0F0F] border border-[#333] rounded-lg p-4 flex items-center gap-3">
                 <Loader2 className="animate-spin text-[#E50914]" size={18} />
@@ -190,14 +244,24 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ onAwardPoints, activeSess
             placeholder="Qual é o travamento? Seja direto."
             className="flex-1 bg-[#111] text-white rounded-md px-4 py-4 focus:outline-none focus:ring-1 focus:ring-[#E50914] border border-[#333] placeholder-[#555] font-medium min-w-0"
           />
-          <button
-            onClick={handleSend}
-            disabled={isLoading || !input.trim()}
-            className="bg-[#E50914] hover:bg-[#b0060e] disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 sm:px-6 py-2 rounded-md font-bold transition-all uppercase tracking-wide text-sm flex items-center gap-2 shadow-[0_0_15px_rgba(229,9,20,0.2)] shrink-0"
-          >
-            <Send size={18} />
-            <span className="hidden sm:inline">Executar</span>
-          </button>
+          {isLoading ? (
+            <button
+              onClick={handleStop}
+              className="bg-[#333] hover:bg-[#222] border border-[#555] hover:border-[#E50914] text-white px-4 sm:px-6 py-2 rounded-md font-bold transition-all uppercase tracking-wide text-sm flex items-center gap-2 shrink-0"
+            >
+              <Square size={18} />
+              <span className="hidden sm:inline">Parar</span>
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!input.trim()}
+              className="bg-[#E50914] hover:bg-[#b0060e] disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 sm:px-6 py-2 rounded-md font-bold transition-all uppercase tracking-wide text-sm flex items-center gap-2 shadow-[0_0_15px_rgba(229,9,20,0.2)] shrink-0"
+            >
+              <Send size={18} />
+              <span className="hidden sm:inline">Executar</span>
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -1,20 +1,17 @@
 
 import React from 'react';
+import { EMBLEM_COLORS, LOCKED_EMBLEM_COLORS, getEmblemStage } from '../services/progressionService';
 
 interface EagleEmblemProps {
   points: number;
   className?: string;
   size?: 'sm' | 'md' | 'lg' | 'xl';
   locked?: boolean;
+  prestige?: number; // Completed cycles, shown as a marker
 }
 
-const EagleEmblem: React.FC<EagleEmblemProps> = ({ points, className = '', size = 'md', locked = false }) => {
-  // Determine Stage
-  let stage = 1;
-  if (points >= 10000) stage = 5;       // Lenda
-  else if (points >= 5000) stage = 4;   // Dominante (was 7500)
-  else if (points >= 2500) stage = 3;   // Praticante (was 5000)
-  else if (points >= 500) stage = 2;    // Aprendiz/Despertar (was 2500)
+const EagleEmblem: React.FC<EagleEmblemProps> = ({ points, className = '', size = 'md', locked = false, prestige = 0 }) => {
+  const stage = getEmblemStage(points);
 
   // Size mapping
   const sizeClasses = {
@@ -24,26 +21,10 @@ const EagleEmblem: React.FC<EagleEmblemProps> = ({ points, className = '', size
     xl: 'w-96 h-96'
   };
 
-  // Color mapping based on stage (Progressive Glow)
-  const getColors = () => {
-    if (locked) {
-      return { fill: "#1a1a1a", stroke: "#333" }; // Disabled/Locked state
-    }
-
-    switch(stage) {
-      case 1: return { fill: "#333", stroke: "#555" }; // Stone
-      case 2: return { fill: "#444", stroke: "#9FB4C7" }; // Iron/Azure
-      case 3: return { fill: "#1a0b0b", stroke: "#E50914" }; // Blood
-      case 4: return { fill: "#2a0a0a", stroke: "#ff4d4d" }; // Crimson
-      case 5: return { fill: "#1a1a00", stroke: "#FFD700" }; // Gold
-      default: return { fill: "#333", stroke: "#555" };
-    }
-  };
-
-  const colors = getColors();
+  const colors = locked ? LOCKED_EMBLEM_COLORS : EMBLEM_COLORS[stage];
 
   return (
-    <div className={`${sizeClasses[size]} ${className} flex items-center justify-center transition-all duration-1000`}>
+    <div className={`${sizeClasses[size]} ${className} relative flex items-center justify-center transition-all duration-1000`}>
       <svg 
         viewBox="0 0 24 24" 
         className={`w-full h-full transition-all duration-700`}
@@ -76,6 +57,11 @@ const EagleEmblem: React.FC<EagleEmblemProps> = ({ points, className = '', size
             </g>
         )}
       </svg>
+      {!locked && prestige > 0 && (
+        <span className={`absolute -top-1 -right-1 bg-[#FFD700] text-black font-bold font-mono rounded-full leading-none flex items-center justify-center shadow-[0_0_8px_rgba(255,215,0,0.6)] ${size === 'sm' ? 'text-[8px] min-w-[14px] h-[14px] px-0.5' : 'text-xs min-w-[20px] h-5 px-1'}`}>
+          {prestige}
+        </span>
+      )}
     </div>
   );
 };
@@ -1,29 +1,71 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Play, Pause, RotateCcw, Edit3, Save, Volume2 } from 'lucide-react';
-import { TimerState } from '../types';
+import { Play, Pause, RotateCcw, Edit3, Save, Volume2, SlidersHorizontal, Square, Flag } from 'lucide-react';
+import { CycleProgram, FocusSession, TimerState } from '../types';
+import { CYCLE_PROGRAMS, TIMER_FAILURE_PENALTY } from '../constants';
+import { createAbandonedSession, createFocusSession, getDeliveryPoints } from '../services/focusService';
+import {
+  addLap, clearProgram, endRun, getElapsedMs, getRemainingMs, isLongBreak, isRunning, loadProgram, pauseTimer,
+  setStopwatchTarget, setTimerDuration, startTimer, stopStopwatch,
+} from '../services/timerService';
 
 interface ExecutionTimerProps {
   onComplete: (points: number, reason: string) => void;
+  /** A session answered in the post-check (or abandoned), for the focus log. */
+  onSessionEnd: (session: FocusSession) => void;
   timer: TimerState;
-  updateTimer: (newState: Partial<TimerState>) => void;
+  /** Clock the countdown is computed against, refreshed by App while the timer runs. */
+  now: number;
+  updateTimer: (update: (prev: TimerState) => TimerState) => void;
 }
 
-const ExecutionTimer: React.FC<ExecutionTimerProps> = ({ onComplete, timer, updateTimer }) => {
+const formatClock = (epochMs: number) => new Date(epochMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatElapsed = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const PROGRAM_FIELDS: Array<[field: Exclude<keyof CycleProgram, 'id' | 'name'>, label: string, min: number]> = [
+  ['focusMinutes', 'Foco (min)', 1],
+  ['breakMinutes', 'Pausa (min)', 0],
+  ['longBreakMinutes', 'Pausa longa (min)', 0],
+  ['longBreakEvery', 'Pausa longa a cada', 0],
+  ['totalCycles', 'Ciclos', 1],
+];
+
+const ExecutionTimer: React.FC<ExecutionTimerProps> = ({ onComplete, onSessionEnd, timer, now, updateTimer }) => {
   const [isEditingTime, setIsEditingTime] = useState(false);
   const [editMinutes, setEditMinutes] = useState('25');
   const [editSeconds, setEditSeconds] = useState('00');
   const [showPostCheck, setShowPostCheck] = useState(false);
+  const [programDraft, setProgramDraft] = useState<CycleProgram | null>(null);
+  const [lapLabel, setLapLabel] = useState('');
   
   // Audio Context Ref for synthetic alarm
   const audioCtxRef = useRef<AudioContext | null>(null);
 
+  const running = isRunning(timer);
+  const stopwatch = timer.mode === 'FREE';
+  const elapsedMs = getElapsedMs(timer, now);
+  // The stopwatch shows the time counted, the countdown the time left
+  const shownSeconds = stopwatch ? Math.floor(elapsedMs / 1000) : Math.ceil(getRemainingMs(timer, now) / 1000);
+  const minutes = Math.floor(shownSeconds / 60);
+  const seconds = shownSeconds % 60;
+  const targetReached = stopwatch && timer.durationMs > 0 && elapsedMs >= timer.durationMs;
+  const laps = timer.run?.laps ?? [];
+
   // Watch for timer completion via props
   useEffect(() => {
-    if (timer.minutes === 0 && timer.seconds === 0 && !timer.isActive && timer.deliverable) {
+    if (timer.completedAt !== null && timer.deliverable) {
        setShowPostCheck(true);
     }
-  }, [timer.minutes, timer.seconds, timer.isActive, timer.deliverable]);
+  }, [timer.completedAt, timer.deliverable]);
+
+  // Answered in another tab (the deliverable is cleared there and synced here)
+  useEffect(() => {
+    if (!timer.deliverable) setShowPostCheck(false);
+  }, [timer.deliverable]);
 
   const playSyntheticAlarm = () => {
     try {
@@ -71,7 +113,7 @@ const ExecutionTimer: React.FC<ExecutionTimerProps> = ({ onComplete, timer, upda
     }
   };
 
-  const startTimer = () => {
+  const handleStart = () => {
     if (!timer.deliverable?.trim() && timer.mode !== 'BREAK') {
       alert("O MENTOR EXIGE: Defina um entregável antes de começar.");
       return;
@@ -84,41 +126,89 @@ const ExecutionTimer: React.FC<ExecutionTimerProps> = ({ onComplete, timer, upda
         audioCtxRef.current.resume();
     }
     
-    updateTimer({ isActive: true });
+    updateTimer(prev => startTimer(prev, Date.now()));
+  };
+
+  const handlePause = () => {
+    updateTimer(prev => pauseTimer(prev, Date.now()));
+  };
+
+  // Ends the stopwatch: the time counted and the laps go to the post-check
+  const handleStop = () => {
+    updateTimer(prev => stopStopwatch(prev, Date.now()));
+  };
+
+  const handleLap = () => {
+    const label = lapLabel.trim();
+    if (!label) return;
+    updateTimer(prev => addLap(prev, label, Date.now()));
+    setLapLabel('');
   };
 
-  const pauseTimer = () => {
-    updateTimer({ isActive: false });
+  // Resets, presets and program changes abandon the session in progress: it is logged as failed
+  const abandonRun = () => {
+    const session = createAbandonedSession(timer, Date.now());
+    if (session) onSessionEnd(session);
   };
 
-  const resetTimer = () => {
-    updateTimer({ isActive: false, minutes: 25, seconds: 0, mode: 'FOCUS' });
+  // Within a program, back to its first cycle; the stopwatch back to zero with the same target
+  const handleReset = () => {
+    abandonRun();
+    updateTimer(prev => endRun(
+      prev.program ? loadProgram(prev, prev.program) :
+      prev.mode === 'FREE' ? setTimerDuration(prev, prev.durationMs) :
+      setTimerDuration(prev, 25 * 60 * 1000, 'FOCUS')
+    ));
     setShowPostCheck(false);
   };
 
-  const setPreset = (mins: number, mode: 'FOCUS' | 'BREAK' | 'FREE' = 'FOCUS') => {
-    updateTimer({ 
-      minutes: mins, 
-      seconds: 0, 
-      isActive: false, 
-      mode 
-    });
+  const applyPreset = (mins: number, mode: 'FOCUS' | 'BREAK' | 'FREE') => {
+    updateTimer(prev => endRun(clearProgram(setTimerDuration(prev, mins * 60 * 1000, mode))));
     setEditMinutes(mins.toString());
     setEditSeconds('00');
   };
 
+  const setPreset = (mins: number, mode: 'FOCUS' | 'BREAK' | 'FREE' = 'FOCUS') => {
+    abandonRun();
+    applyPreset(mins, mode);
+  };
+
+  const handleDeliveryFailed = () => {
+    if (TIMER_FAILURE_PENALTY > 0) {
+      onComplete(-TIMER_FAILURE_PENALTY, `Missão não cumprida: ${timer.deliverable}`);
+    }
+    onSessionEnd(createFocusSession(timer, 'FAILED', Date.now()));
+    setShowPostCheck(false);
+    updateTimer(prev => endRun({ ...prev, deliverable: '' }));
+  };
+
   const handleDeliveryConfirm = () => {
-    const points = 50;
+    const points = getDeliveryPoints(timer);
     onComplete(points, `Tarefa concluída: ${timer.deliverable}`);
+    onSessionEnd(createFocusSession(timer, 'EXECUTED', Date.now()));
     setShowPostCheck(false);
-    updateTimer({ deliverable: '' }); 
-    setPreset(5, 'BREAK');
+    if (timer.program) {
+      // The program is ready for another round
+      updateTimer(prev => endRun(prev.program ? loadProgram({ ...prev, deliverable: '' }, prev.program) : { ...prev, deliverable: '' }));
+    } else {
+      // The run was just logged as executed, so the break does not abandon it
+      updateTimer(prev => endRun({ ...prev, deliverable: '' }));
+      applyPreset(5, 'BREAK');
+    }
   };
 
-  // Calculate progress
-  const currentTotal = timer.minutes * 60 + timer.seconds;
-  const maxSeconds = (parseInt(editMinutes) * 60 + parseInt(editSeconds)) || 25 * 60;
-  const progress = maxSeconds > 0 ? 100 - (currentTotal / maxSeconds) * 100 : 0;
+  const selectProgram = (program: CycleProgram) => {
+    abandonRun();
+    updateTimer(prev => endRun(loadProgram(prev, program)));
+    setProgramDraft(null);
+  };
+
+  const updateDraft = (field: typeof PROGRAM_FIELDS[number][0], value: string, min: number) => {
+    setProgramDraft(prev => prev && { ...prev, [field]: Math.max(min, parseInt(value) || 0) });
+  };
+
+  // Calculate progress (towards the soft target on the stopwatch)
+  const progress = timer.durationMs > 0 ? Math.min(100, (elapsedMs / timer.durationMs) * 100) : 0;
 
   const saveTime = () => {
     let m = parseInt(editMinutes) || 0;
@@ -129,7 +219,12 @@ const ExecutionTimer: React.FC<ExecutionTimerProps> = ({ onComplete, timer, upda
       s = s % 60;
     }
 
-    updateTimer({ minutes: m, seconds: s });
+    // The stopwatch only changes its target; a running countdown keeps running with the new time
+    updateTimer(prev => {
+      if (prev.mode === 'FREE') return setStopwatchTarget(prev, (m * 60 + s) * 1000);
+      const edited = setTimerDuration(prev, (m * 60 + s) * 1000);
+      return isRunning(prev) ? startTimer(edited, Date.now()) : edited;
+    });
     setIsEditingTime(false);
   };
 
@@ -141,22 +236,29 @@ const ExecutionTimer: React.FC<ExecutionTimerProps> = ({ onComplete, timer, upda
         <div className="absolute inset-0 z-50 bg-black/90 flex items-center justify-center p-4 backdrop-blur-md">
           <div className="bg-[#0A0A0A] border border-[#E50914] p-8 rounded-lg max-w-md w-full text-center shadow-[0_0_30px_rgba(229,9,20,0.3)]">
             <h3 className="text-2xl font-bold text-[#FFD700] mb-4 uppercase">Relatório de Execução</h3>
-            <p className="text-[#9FB4C7] mb-6">O tempo acabou. Você entregou o que prometeu?</p>
+            <p className="text-[#9FB4C7] mb-6">
+              {timer.program ? 'O programa terminou' : stopwatch ? `Cronômetro parado em ${formatElapsed(timer.elapsedMs)}` : 'O tempo acabou'}{timer.completedAt !== null && ` às ${formatClock(timer.completedAt)}`}. Você entregou o que prometeu?
+            </p>
             <div className="bg-neutral-900 p-4 rounded mb-6 text-left border-l-4 border-[#E50914]">
                <span className="text-xs text-neutral-500 uppercase">Compromisso:</span>
                <p className="text-white font-medium">{timer.deliverable}</p>
+               {laps.length > 0 && (
+                 <ul className="mt-3 space-y-1 text-xs font-mono text-[#9FB4C7]">
+                   {laps.map((lap, i) => <li key={i}>{formatElapsed(lap.atMs)} · {lap.label}</li>)}
+                 </ul>
+               )}
             </div>
             <button 
               onClick={handleDeliveryConfirm}
               className="w-full bg-[#E50914] hover:bg-red-700 text-white font-bold py-4 rounded uppercase tracking-widest transition-all"
             >
-              Sim, Executado (+50 PTS)
+              Sim, Executado (+{getDeliveryPoints(timer)} PTS)
             </button>
             <button 
-              onClick={() => { setShowPostCheck(false); updateTimer({ deliverable: '' }); }}
+              onClick={handleDeliveryFailed}
               className="mt-4 text-xs text-neutral-500 hover:text-white underline"
             >
-              Falhei na missão (Sem pontos)
+              Falhei na missão ({TIMER_FAILURE_PENALTY > 0 ? `-${TIMER_FAILURE_PENALTY} PTS` : 'Sem pontos'})
             </button>
           </div>
         </div>
@@ -168,8 +270,13 @@ const ExecutionTimer: React.FC<ExecutionTimerProps> = ({ onComplete, timer, upda
               {timer.mode === 'FOCUS' ? 'Modo Guerra' : timer.mode === 'BREAK' ? 'Recuperação' : 'Execução Livre'}
            </h2>
            <p className="text-[#9FB4C7] font-mono text-sm">
-              {timer.mode === 'FOCUS' ? 'EXECUÇÃO > PERFEIÇÃO' : 'RESPIRE PARA VOLTAR MAIS FORTE.'}
+              {timer.mode === 'FOCUS' ? 'EXECUÇÃO > PERFEIÇÃO' : timer.mode === 'FREE' ? 'SEM RELÓGIO CONTRA VOCÊ. SÓ ENTREGA.' : 'RESPIRE PARA VOLTAR MAIS FORTE.'}
            </p>
+           {timer.program && (
+             <p className="text-[#FFD700] font-mono text-xs uppercase tracking-widest mt-2">
+                {timer.program.name} · Ciclo {timer.cycle ?? 1} de {timer.program.totalCycles}{isLongBreak(timer) && ' · Pausa longa'}
+             </p>
+           )}
         </div>
 
         {/* Presets */}
@@ -177,14 +284,59 @@ const ExecutionTimer: React.FC<ExecutionTimerProps> = ({ onComplete, timer, upda
           <button onClick={() => setPreset(25)} className="px-3 py-1 bg-neutral-900 border border-[#9FB4C7]/20 hover:border-[#E50914] text-xs font-bold text-[#9FB4C7] uppercase rounded transition-colors">25min</button>
           <button onClick={() => setPreset(50)} className="px-3 py-1 bg-neutral-900 border border-[#9FB4C7]/20 hover:border-[#E50914] text-xs font-bold text-[#9FB4C7] uppercase rounded transition-colors">50min</button>
           <button onClick={() => setPreset(5)} className="px-3 py-1 bg-neutral-900 border border-[#9FB4C7]/20 hover:border-[#E50914] text-xs font-bold text-[#9FB4C7] uppercase rounded transition-colors">5min (Start)</button>
+          <button onClick={() => setPreset(0, 'FREE')} className="px-3 py-1 bg-neutral-900 border border-[#9FB4C7]/20 hover:border-[#E50914] text-xs font-bold text-[#9FB4C7] uppercase rounded transition-colors">Livre</button>
+        </div>
+
+        {/* Cycle programs: focus and break blocks run back to back */}
+        <div className="flex justify-center items-center gap-2 mb-4">
+          {CYCLE_PROGRAMS.map(program => (
+            <button
+              key={program.id}
+              onClick={() => selectProgram(program)}
+              className={`px-3 py-1 bg-neutral-900 border text-xs font-bold uppercase rounded transition-colors ${
+                timer.program?.id === program.id ? 'border-[#E50914] text-white' : 'border-[#9FB4C7]/20 hover:border-[#E50914] text-[#9FB4C7]'
+              }`}
+            >
+              {program.name} {program.focusMinutes}/{program.breakMinutes}
+            </button>
+          ))}
+          {timer.program && !running && (
+            <button onClick={() => setProgramDraft(timer.program!)} title="Ajustar programa" className="p-1 text-[#9FB4C7] hover:text-white transition-colors">
+              <SlidersHorizontal size={16} />
+            </button>
+          )}
         </div>
 
+        {programDraft && (
+          <div className="bg-neutral-900 border border-[#9FB4C7]/20 rounded-lg p-4 space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              {PROGRAM_FIELDS.map(([field, label, min]) => (
+                <label key={field} className="flex flex-col gap-1 text-[10px] text-[#9FB4C7] uppercase tracking-widest">
+                  {label}
+                  <input
+                    type="number"
+                    min={min}
+                    value={programDraft[field]}
+                    onChange={(e) => updateDraft(field, e.target.value, min)}
+                    className="bg-[#1a1a1a] border border-[#9FB4C7]/20 focus:border-[#E50914] text-white p-2 rounded outline-none font-mono text-sm"
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end gap-3">
+              <button onClick={() => setProgramDraft(null)} className="text-xs text-neutral-500 hover:text-white uppercase">Cancelar</button>
+              <button onClick={() => selectProgram(programDraft)} className="px-3 py-1 bg-[#E50914] hover:bg-red-700 text-white text-xs font-bold uppercase rounded transition-colors">Aplicar</button>
+            </div>
+          </div>
+        )}
+
         {/* Timer Display */}
         <div className="relative w-64 h-64 sm:w-72 sm:h-72 mx-auto flex items-center justify-center">
            <svg className="absolute w-full h-full transform -rotate-90" viewBox="0 0 288 288">
               <circle cx="144" cy="144" r="130" stroke="#1a1a1a" strokeWidth="6" fill="transparent" />
-              <circle cx="144" cy="144" r="130" stroke="#E50914" strokeWidth="6" fill="transparent" 
+              <circle cx="144" cy="144" r="130" strokeWidth="6" fill="transparent" 
                       strokeDasharray={2 * Math.PI * 130}
+                      stroke={targetReached ? '#FFD700' : '#E50914'}
                       strokeDashoffset={2 * Math.PI * 130 * (1 - (progress < 0 ? 0 : progress) / 100)}
                       className="transition-all duration-1000 ease-linear shadow-[0_0_15px_#E50914]"
                       strokeLinecap="round" />
@@ -215,14 +367,16 @@ const ExecutionTimer: React.FC<ExecutionTimerProps> = ({ onComplete, timer, upda
                </div>
              ) : (
                <div className="group relative flex items-center justify-center cursor-pointer" onClick={() => {
-                   setEditMinutes(timer.minutes.toString());
-                   setEditSeconds(timer.seconds.toString().padStart(2, '0'));
+                   // On the stopwatch the clock edits the soft target
+                   const editedMs = stopwatch ? timer.durationMs : shownSeconds * 1000;
+                   setEditMinutes(Math.floor(editedMs / 60000).toString());
+                   setEditSeconds(String(Math.floor(editedMs / 1000) % 60).padStart(2, '0'));
                    setIsEditingTime(true);
                }}>
                  <div className="text-6xl sm:text-7xl font-mono font-bold text-white tracking-tighter shadow-black drop-shadow-lg select-none">
-                    {String(timer.minutes).padStart(2, '0')}:{String(timer.seconds).padStart(2, '0')}
+                    {String(minutes).padStart(2, '0')}:{String(seconds).padStart(2, '0')}
                  </div>
-                 {!timer.isActive && (
+                 {!running && (
                    <button 
                      className="absolute -right-10 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity p-2"
                    >
@@ -231,6 +385,11 @@ const ExecutionTimer: React.FC<ExecutionTimerProps> = ({ onComplete, timer, upda
                  )}
                </div>
              )}
+             {stopwatch && !isEditingTime && (
+               <p className={`font-mono text-xs uppercase tracking-widest mt-2 ${targetReached ? 'text-[#FFD700]' : 'text-[#9FB4C7]'}`}>
+                 {timer.durationMs === 0 ? 'Sem meta' : targetReached ? `Meta ${formatElapsed(timer.durationMs)} atingida` : `Meta ${formatElapsed(timer.durationMs)}`}
+               </p>
+             )}
            </div>
         </div>
 
@@ -240,12 +399,12 @@ const ExecutionTimer: React.FC<ExecutionTimerProps> = ({ onComplete, timer, upda
              <input 
                 type="text" 
                 value={timer.deliverable || ''}
-                onChange={(e) => updateTimer({ deliverable: e.target.value })}
-                disabled={timer.isActive}
+                onChange={(e) => updateTimer(prev => ({ ...prev, deliverable: e.target.value }))}
+                disabled={running}
                 placeholder="O QUE SERÁ ENTREGUE? (Obrigatório)"
                 className="w-full bg-[#1a1a1a] border border-[#9FB4C7]/20 focus:border-[#E50914] text-center text-white p-4 rounded-lg outline-none transition-colors placeholder-[#9FB4C7]/50 font-medium disabled:opacity-50"
              />
-             {!timer.deliverable && !timer.isActive && timer.mode !== 'BREAK' && (
+             {!timer.deliverable && !running && timer.mode !== 'BREAK' && (
                 <div className="absolute right-4 top-1/2 -translate-y-1/2 text-[#E50914] animate-pulse">
                    !
                 </div>
@@ -253,30 +412,69 @@ const ExecutionTimer: React.FC<ExecutionTimerProps> = ({ onComplete, timer, upda
            </div>
            
            <div className="flex justify-center gap-6">
-              {!timer.isActive ? (
+              {!running ? (
                 <button 
-                  onClick={startTimer} 
+                  onClick={handleStart} 
                   className="w-20 h-20 rounded-full bg-[#E50914] hover:bg-red-700 text-white flex items-center justify-center transition-all shadow-[0_0_20px_rgba(229,9,20,0.4)] hover:scale-105"
                 >
                    <Play size={36} className="ml-1" />
                 </button>
               ) : (
                 <button 
-                  onClick={pauseTimer} 
+                  onClick={handlePause} 
                   className="w-20 h-20 rounded-full bg-[#FFD700] hover:bg-yellow-500 text-black flex items-center justify-center transition-all shadow-[0_0_20px_rgba(255,215,0,0.4)]"
                 >
                    <Pause size={36} />
                 </button>
               )}
               
+              {stopwatch && timer.run && (
+                <button 
+                  onClick={handleStop} 
+                  title="Encerrar e reportar"
+                  className="w-20 h-20 rounded-full bg-neutral-800 border border-[#E50914]/40 hover:bg-neutral-700 text-[#E50914] flex items-center justify-center transition-all"
+                >
+                   <Square size={28} />
+                </button>
+              )}
+
               <button 
-                onClick={resetTimer} 
+                onClick={handleReset} 
                 className="w-20 h-20 rounded-full bg-neutral-800 border border-[#9FB4C7]/20 hover:bg-neutral-700 text-[#9FB4C7] flex items-center justify-center transition-all"
               >
                  <RotateCcw size={30} />
               </button>
            </div>
            
+           {/* Laps: sub-deliverables marked done along the stopwatch */}
+           {stopwatch && timer.run && (
+             <div className="space-y-2">
+               <div className="flex gap-2">
+                 <input
+                   type="text"
+                   value={lapLabel}
+                   onChange={(e) => setLapLabel(e.target.value)}
+                   onKeyDown={(e) => e.key === 'Enter' && handleLap()}
+                   placeholder="Sub-entrega concluída"
+                   className="flex-1 bg-[#1a1a1a] border border-[#9FB4C7]/20 focus:border-[#E50914] text-white p-2 rounded-lg outline-none text-sm"
+                 />
+                 <button onClick={handleLap} className="px-3 bg-neutral-800 border border-[#9FB4C7]/20 hover:border-[#E50914] text-[#9FB4C7] rounded-lg flex items-center gap-1 text-xs font-bold uppercase">
+                   <Flag size={14} /> Volta
+                 </button>
+               </div>
+               {laps.length > 0 && (
+                 <ul className="space-y-1 text-xs font-mono text-[#9FB4C7]">
+                   {laps.map((lap, i) => (
+                     <li key={i} className="flex justify-between border-b border-[#1a1a1a] pb-1">
+                       <span className="truncate">{i + 1}. {lap.label}</span>
+                       <span>{formatElapsed(lap.atMs)} (+{formatElapsed(lap.atMs - (i > 0 ? laps[i - 1].atMs : 0))})</span>
+                     </li>
+                   ))}
+                 </ul>
+               )}
+             </div>
+           )}
+
            <div className="flex justify-center">
              <button onClick={playSyntheticAlarm} className="text-[10px] text-[#555] hover:text-[#E50914] flex items-center gap-1 uppercase tracking-widest">
                <Volume2 size={12} /> Testar Alarme
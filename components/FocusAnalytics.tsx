@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import { BarChart3, CheckCircle2, XCircle } from 'lucide-react';
+import { FocusSession } from '../types';
+import { FocusDay, summarizeFocus } from '../services/focusService';
+
+interface FocusAnalyticsProps {
+  log: FocusSession[];
+}
+
+const RECENT_SESSIONS = 10;
+
+const formatMinutes = (minutes: number) => {
+  if (minutes < 60) return `${minutes} min`;
+  const rest = minutes % 60;
+  return `${Math.floor(minutes / 60)}h${rest > 0 ? ` ${rest}min` : ''}`;
+};
+
+// Noon keeps the calendar day in any time zone
+const formatDay = (day: string, options: Intl.DateTimeFormatOptions) => new Date(`${day}T12:00:00`).toLocaleDateString('pt-BR', options);
+
+const heatColor = (minutes: number) =>
+  minutes === 0 ? 'bg-[#1a1a1a]' : minutes < 25 ? 'bg-[#E50914]/30' : minutes < 60 ? 'bg-[#E50914]/60' : 'bg-[#E50914]';
+
+const StatCard = ({ label, value }: { label: string, value: string }) => (
+  <div className="bg-[#0F0F0F] border border-[#333] rounded-lg p-4">
+    <div className="text-[10px] text-[#9FB4C7] uppercase tracking-widest">{label}</div>
+    <div className="text-2xl font-bold font-mono text-white mt-1">{value}</div>
+  </div>
+);
+
+const BarChart = ({ title, days, label }: { title: string, days: FocusDay[], label: (day: string) => string }) => {
+  const max = Math.max(1, ...days.map(d => d.minutes));
+  return (
+    <div className="bg-[#0F0F0F] border border-[#333] rounded-lg p-4">
+      <h3 className="text-xs text-[#9FB4C7] uppercase tracking-widest mb-4">{title}</h3>
+      <div className="flex items-end gap-2 h-32">
+        {days.map(d => (
+          <div key={d.day} className="flex-1 flex flex-col items-center justify-end h-full gap-1" title={formatMinutes(d.minutes)}>
+            <div className="w-full bg-[#E50914] rounded-t" style={{ height: `${(d.minutes / max) * 100}%` }} />
+            <span className="text-[9px] text-[#555] font-mono">{label(d.day)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const FocusAnalytics: React.FC<FocusAnalyticsProps> = ({ log }) => {
+  const summary = useMemo(() => summarizeFocus(log), [log]);
+  const recent = log.slice(-RECENT_SESSIONS).reverse();
+  // Columns of the calendar, Monday first; the current week may be incomplete
+  const weeks = Array.from({ length: Math.ceil(summary.heatmap.length / 7) }, (_, i) => summary.heatmap.slice(i * 7, i * 7 + 7));
+
+  return (
+    <div className="h-full bg-[#0A0A0A] p-6 text-white overflow-y-auto">
+      <div className="max-w-4xl mx-auto w-full space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold uppercase tracking-wider flex items-center gap-2">
+            <BarChart3 className="text-[#E50914]" />
+            Desempenho
+          </h2>
+          <p className="text-[#9FB4C7] text-sm font-mono mt-1">O QUE FOI EXECUTADO, EM NÚMEROS</p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <StatCard label="Foco hoje" value={formatMinutes(summary.todayMinutes)} />
+          <StatCard label="Foco na semana" value={formatMinutes(summary.weekMinutes)} />
+          <StatCard label="Taxa de sucesso" value={summary.successRate === null ? '—' : `${Math.round(summary.successRate * 100)}%`} />
+          <StatCard label="Maior sequência" value={`${summary.longestStreak}`} />
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-3">
+          <BarChart title="Últimos 7 dias" days={summary.daily} label={day => formatDay(day, { weekday: 'short' }).slice(0, 3)} />
+          <BarChart title="Últimas 8 semanas" days={summary.weekly} label={day => formatDay(day, { day: '2-digit', month: '2-digit' })} />
+        </div>
+
+        <div className="bg-[#0F0F0F] border border-[#333] rounded-lg p-4">
+          <h3 className="text-xs text-[#9FB4C7] uppercase tracking-widest mb-4">Calendário de foco</h3>
+          <div className="flex gap-1 overflow-x-auto">
+            {weeks.map(week => (
+              <div key={week[0].day} className="flex flex-col gap-1">
+                {week.map(d => (
+                  <div
+                    key={d.day}
+                    title={`${formatDay(d.day, { day: '2-digit', month: '2-digit' })}: ${formatMinutes(d.minutes)}`}
+                    className={`w-3 h-3 rounded-sm ${heatColor(d.minutes)}`}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-[#0F0F0F] border border-[#333] rounded-lg p-4">
+          <h3 className="text-xs text-[#9FB4C7] uppercase tracking-widest mb-4">
+            Sessões recentes ({summary.executed}/{summary.sessions} executadas)
+          </h3>
+          {recent.length === 0 ? (
+            <p className="text-[#555] font-mono text-sm">NENHUMA SESSÃO REGISTRADA. DEFINA UM ENTREGÁVEL E EXECUTE.</p>
+          ) : (
+            <div className="space-y-2">
+              {recent.map(s => (
+                <div key={s.id} className="flex items-center gap-3 text-sm border-b border-[#1a1a1a] pb-2">
+                  {s.outcome === 'EXECUTED'
+                    ? <CheckCircle2 size={16} className="text-green-500 shrink-0" />
+                    : <XCircle size={16} className="text-[#E50914] shrink-0" />}
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate text-white">{s.deliverable}</div>
+                    <div className="text-[10px] text-[#555] font-mono">
+                      {s.startedAt.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}
+                      {s.cycles !== undefined && ` · ${s.cycles} ciclo(s)`}
+                      {` · ${s.pauses} pausa(s)`}
+                      {s.laps && ` · ${s.laps.length} volta(s)`}
+                    </div>
+                  </div>
+                  <div className="text-xs font-mono text-[#9FB4C7] text-right shrink-0">
+                    {formatMinutes(Math.round(s.focusMs / 60000))}
+                    {s.plannedMs > 0 && <span className="text-[#555]"> / {formatMinutes(Math.round(s.plannedMs / 60000))}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FocusAnalytics;
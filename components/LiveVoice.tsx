@@ -1,7 +1,10 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
 import { Mic, MicOff, Radio, StopCircle, AlertCircle, RefreshCw } from 'lucide-react';
-import { getVoiceApiKey } from '../services/geminiService';
+import { getVoiceClientOptions } from '../services/geminiService';
+import { AWARD_POINTS_DECLARATION, toPointAward } from '../services/mentorModel';
+import { AwardMeta, generateId } from '../services/ledgerService';
+import { LedgerEntry } from '../types';
 
 const LIVE_VOICE_INSTRUCTION = `
 VOCÊ É O MENTOR DO CÓDIGO DA EVOLUÇÃO.
@@ -22,13 +25,23 @@ TOM DE VOZ:
 - Seja firme, mas leal.
 
 Se o áudio estiver ruim ou confuso, diga: "Não entendi. Repita com comando na voz."
+
+PONTUAÇÃO:
+- Quando o usuário relatar uma execução real ou demonstrar entendimento profundo, chame award_points.
+- Nunca premie promessas, só o que foi feito. Anuncie os pontos em uma frase curta.
 `;
 
-const LiveVoice: React.FC = () => {
+interface LiveVoiceProps {
+  onSessionStart?: () => void;
+  onAwardPoints: (amount: number, reason: string, meta: AwardMeta) => LedgerEntry | null;
+}
+
+const LiveVoice: React.FC<LiveVoiceProps> = ({ onSessionStart, onAwardPoints }) => {
   const [isActive, setIsActive] = useState(false);
   const [status, setStatus] = useState<'disconnected' | 'connecting' | 'connected' | 'error'>('disconnected');
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [errorMsg, setErrorMsg] = useState('');
+  const [lastAward, setLastAward] = useState<LedgerEntry | null>(null);
   
   // Audio Context Refs
   const inputAudioContextRef = useRef<AudioContext | null>(null);
@@ -36,6 +49,10 @@ const LiveVoice: React.FC = () => {
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const nextStartTimeRef = useRef<number>(0);
   const sessionRef = useRef<any>(null);
+  // The Live callbacks outlive renders: awards go through the latest handler, capped per voice session
+  const onAwardPointsRef = useRef(onAwardPoints);
+  onAwardPointsRef.current = onAwardPoints;
+  const voiceSessionIdRef = useRef('');
 
   const stopSession = () => {
     // Close audio contexts to release hardware
@@ -61,8 +78,7 @@ const LiveVoice: React.FC = () => {
 
   const attemptConnection = async (retryCount = 0) => {
     try {
-      const apiKey = await getVoiceApiKey(); 
-      const ai = new GoogleGenAI({ apiKey });
+      const ai = new GoogleGenAI(await getVoiceClientOptions());
       
       const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
       
@@ -85,6 +101,7 @@ const LiveVoice: React.FC = () => {
             voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Fenrir' } },
           },
           systemInstruction: LIVE_VOICE_INSTRUCTION,
+          tools: [{ functionDeclarations: [AWARD_POINTS_DECLARATION] }],
         },
         callbacks: {
           onopen: () => {
@@ -95,6 +112,9 @@ const LiveVoice: React.FC = () => {
             setStatus('connected');
             setIsActive(true);
             setErrorMsg('');
+            setLastAward(null);
+            voiceSessionIdRef.current = generateId();
+            onSessionStart?.();
             
             if (!inputAudioContextRef.current) return;
             const source = inputAudioContextRef.current.createMediaStreamSource(stream);
@@ -143,6 +163,23 @@ const LiveVoice: React.FC = () => {
                 sourcesRef.current.add(source);
              }
              
+             // Awards arrive as award_points calls; every call is answered so the model keeps talking
+             const calls = msg.toolCall?.functionCalls;
+             if (calls?.length) {
+                 const functionResponses = calls.map(call => {
+                     const award = toPointAward(call);
+                     const entry = award && onAwardPointsRef.current(award.amount, award.reason, {
+                         source: 'voice',
+                         category: award.category,
+                         sessionId: voiceSessionIdRef.current
+                     });
+                     // Awards refused by the policy only show up in the ledger
+                     if (entry && !entry.rejection) setLastAward(entry);
+                     return { id: call.id, name: call.name, response: { output: entry ? 'registrado' : 'ignorado' } };
+                 });
+                 sessionPromise.then(session => session.sendToolResponse({ functionResponses }));
+             }
+
              // Handle interruptions
              if (msg.serverContent?.interrupted) {
                  sourcesRef.current.forEach(source => {
@@ -306,6 +343,11 @@ const LiveVoice: React.FC = () => {
              <p className="text-[10px] text-[#E50914] font-bold uppercase tracking-widest">
                {isSpeaking ? 'O MENTOR ESTÁ FALANDO' : 'AGUARDANDO VOCÊ...'}
              </p>
+             {lastAward && (
+               <p className="text-xs text-[#FFD700] font-mono">
+                 {lastAward.amount > 0 ? '+' : ''}{lastAward.amount} pts · {lastAward.reason}
+               </p>
+             )}
            </div>
         )}
       </div>
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { AlertCircle, ArrowLeft, KeyRound, Loader2, Mail } from 'lucide-react';
+import { authService, AuthResponse } from '../services/authService';
+
+interface PasswordResetProps {
+  /** Back to the login form, optionally with a message to display there. */
+  onBack: (notice?: string) => void;
+  /** Local reset succeeded: the user is signed in and must see the new recovery code. */
+  onRecovered: (response: AuthResponse) => void;
+}
+
+type Method = 'token' | 'recovery-code';
+
+const INPUT_CLASS = "w-full bg-[#050505] border border-[#333] rounded-lg p-4 text-white focus:outline-none focus:border-[#E50914] font-mono text-sm";
+
+const PasswordReset: React.FC<PasswordResetProps> = ({ onBack, onRecovered }) => {
+  const methods = authService.getResetMethods();
+  const [method, setMethod] = useState<Method>(methods[0]);
+  const [tokenSent, setTokenSent] = useState(false);
+  const [email, setEmail] = useState('');
+  const [secret, setSecret] = useState(''); // Reset token or recovery code
+  const [newPass, setNewPass] = useState('');
+  const [confirmPass, setConfirmPass] = useState('');
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const switchMethod = (next: Method) => {
+    setMethod(next);
+    setTokenSent(false);
+    setSecret('');
+    setNotice('');
+    setError('');
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    setIsLoading(true);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Erro ao redefinir a senha.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRequestToken = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      setNotice(await authService.requestPasswordReset(email));
+      setTokenSent(true);
+    });
+  };
+
+  const handleReset = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPass !== confirmPass) {
+      setError('As senhas não conferem.');
+      return;
+    }
+    run(async () => {
+      if (method === 'token') {
+        onBack(await authService.resetPassword(secret, newPass));
+      } else {
+        onRecovered(await authService.resetWithRecoveryCode(email, secret, newPass));
+      }
+    });
+  };
+
+  const needsToken = method === 'token' && !tokenSent;
+
+  return (
+    <div>
+      <button onClick={() => onBack()} className="text-[#555] hover:text-white text-xs font-mono uppercase mb-4 flex items-center gap-2"><ArrowLeft size={12} /> Voltar ao login</button>
+
+      {methods.length > 1 && (
+        <div className="flex bg-[#050505] rounded-lg p-1 mb-6 border border-[#333]">
+          <button onClick={() => switchMethod('token')} className={`flex-1 py-3 text-[10px] font-bold uppercase tracking-widest rounded transition-all flex items-center justify-center gap-1 ${method === 'token' ? 'bg-[#333] text-white shadow' : 'text-[#555]'}`}><Mail size={12} /> Por E-mail</button>
+          <button onClick={() => switchMethod('recovery-code')} className={`flex-1 py-3 text-[10px] font-bold uppercase tracking-widest rounded transition-all flex items-center justify-center gap-1 ${method === 'recovery-code' ? 'bg-[#333] text-white shadow' : 'text-[#555]'}`}><KeyRound size={12} /> Conta Local</button>
+        </div>
+      )}
+
+      <p className="text-[#9FB4C7] text-xs mb-4">
+        {method === 'recovery-code'
+          ? 'Informe o código de recuperação exibido quando a conta foi criada neste dispositivo.'
+          : needsToken
+            ? 'Enviaremos um código de redefinição para o e-mail cadastrado.'
+            : 'Informe o código recebido e a nova senha.'}
+      </p>
+
+      {notice && !error && (
+        <div className="mb-4 bg-green-900/20 border border-green-900/50 p-3 rounded">
+          <p className="text-xs text-green-500 font-bold">{notice}</p>
+        </div>
+      )}
+      {error && (
+        <div className="mb-4 bg-red-900/20 border border-red-900/50 p-3 rounded flex items-center gap-2 animate-in slide-in-from-top-2">
+          <AlertCircle size={16} className="text-[#E50914]" />
+          <p className="text-xs text-[#E50914] font-bold">{error}</p>
+        </div>
+      )}
+
+      <form onSubmit={needsToken ? handleRequestToken : handleReset} className="space-y-4">
+        {(needsToken || method === 'recovery-code') && (
+          <input type="email" value={email} onChange={e => setEmail(e.target.value)} placeholder="E-mail" className={INPUT_CLASS} required />
+        )}
+        {!needsToken && (
+          <>
+            <input type="text" value={secret} onChange={e => setSecret(e.target.value)} placeholder={method === 'token' ? 'Código de redefinição' : 'XXXX-XXXX-XXXX-XXXX'} className={INPUT_CLASS} required autoComplete="off" />
+            <input type="password" value={newPass} onChange={e => setNewPass(e.target.value)} placeholder="Nova senha" className={INPUT_CLASS} required minLength={6} />
+            <input type="password" value={confirmPass} onChange={e => setConfirmPass(e.target.value)} placeholder="Confirme a nova senha" className={INPUT_CLASS} required minLength={6} />
+          </>
+        )}
+
+        <button type="submit" disabled={isLoading} className="w-full bg-[#E50914] hover:bg-red-700 disabled:opacity-50 text-white font-bold py-4 rounded-lg uppercase tracking-widest transition-all flex items-center justify-center gap-2 mt-2 shadow-[0_0_20px_rgba(229,9,20,0.3)]">
+          {isLoading ? <Loader2 className="animate-spin" /> : needsToken ? <><Mail size={18} /> Enviar Código</> : <><KeyRound size={18} /> Redefinir Senha</>}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default PasswordReset;
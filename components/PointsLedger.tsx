@@ -0,0 +1,77 @@
+import React from 'react';
+import { MessageSquare, Timer, Mic, Archive, Undo2 } from 'lucide-react';
+import { LedgerEntry, LedgerSource } from '../types';
+import { AWARD_CATEGORY_LABELS } from '../constants';
+
+interface PointsLedgerProps {
+  ledger: LedgerEntry[];
+  onReverseEntry: (entryId: string) => void;
+}
+
+const SOURCE_META: Record<LedgerSource, { icon: any, label: string }> = {
+  chat: { icon: MessageSquare, label: 'Chat' },
+  timer: { icon: Timer, label: 'Execução' },
+  voice: { icon: Mic, label: 'Voz' },
+  system: { icon: Archive, label: 'Sistema' },
+};
+
+const PointsLedger: React.FC<PointsLedgerProps> = ({ ledger, onReverseEntry }) => {
+  // Newest first
+  const entries = [...ledger].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center text-[#555] font-mono border border-[#333] p-10 rounded-lg border-dashed">
+        NENHUM REGISTRO NO EXTRATO.<br/>EXECUTE PARA PONTUAR.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {entries.map((entry) => {
+        const { icon: Icon, label } = SOURCE_META[entry.source];
+        const isReversed = !!entry.reversedAt;
+        const isRejected = !!entry.rejection;
+        const isInactive = isReversed || isRejected;
+
+        return (
+          <div
+            key={entry.id}
+            className={`flex items-center gap-4 p-3 rounded-lg border bg-[#0F0F0F] ${isInactive ? 'border-[#222] opacity-50' : 'border-[#333]'}`}
+          >
+            <div className="p-2 rounded-full bg-[#1a1a1a] text-[#9FB4C7] shrink-0">
+              <Icon size={16} />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className={`text-sm font-bold text-[#ddd] truncate ${isInactive ? 'line-through' : ''}`}>{entry.reason}</p>
+              <p className="text-[10px] text-[#555] font-mono uppercase tracking-wider">
+                {label}
+                {entry.category && ` · ${AWARD_CATEGORY_LABELS[entry.category]}`}
+                {' · '}
+                {entry.timestamp.toLocaleDateString('pt-BR')} às {entry.timestamp.toLocaleTimeString('pt-BR', {hour: '2-digit', minute:'2-digit'})}
+                {isReversed && ' · ESTORNADO'}
+                {isRejected && ` · RECUSADO (+${entry.requestedAmount}): ${entry.rejection}`}
+                {!isRejected && entry.requestedAmount !== undefined && ` · AJUSTADO DE +${entry.requestedAmount}`}
+              </p>
+            </div>
+            <span className={`font-mono font-bold shrink-0 ${isInactive ? 'text-[#555]' : entry.amount < 0 ? 'text-[#E50914]' : 'text-[#FFD700]'}`}>
+              {entry.amount > 0 ? '+' : ''}{entry.amount}
+            </span>
+            {!isInactive && (
+              <button
+                onClick={() => { if (confirm('Estornar este registro? A pontuação será recalculada.')) onReverseEntry(entry.id); }}
+                title="Estornar"
+                className="text-[#555] hover:text-[#E50914] transition-colors shrink-0"
+              >
+                <Undo2 size={16} />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PointsLedger;
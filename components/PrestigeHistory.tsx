@@ -0,0 +1,52 @@
+import React from 'react';
+import { RefreshCw } from 'lucide-react';
+import { PrestigeCycle } from '../types';
+import EagleEmblem from './EagleEmblem';
+
+interface PrestigeHistoryProps {
+  history: PrestigeCycle[];
+  lifetimePoints: number;
+}
+
+const formatDate = (date: Date) => date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+const PrestigeHistory: React.FC<PrestigeHistoryProps> = ({ history, lifetimePoints }) => {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between p-4 rounded-lg border border-[#FFD700]/30 bg-[#111]">
+        <div>
+          <p className="text-xs text-[#555] uppercase font-bold">Total Vitalício</p>
+          <p className="text-[#FFD700] font-bold text-lg font-mono">{lifetimePoints} PTS</p>
+        </div>
+        <div className="text-right">
+          <p className="text-xs text-[#555] uppercase font-bold">Ciclos Completos</p>
+          <p className="text-white font-bold text-lg font-mono">{history.length}</p>
+        </div>
+      </div>
+
+      {history.length === 0 ? (
+        <div className="text-center text-[#555] font-mono border border-[#333] p-10 rounded-lg border-dashed">
+          NENHUM CICLO COMPLETO.<br/>ALCANCE A LENDA PARA RENASCER.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {[...history].reverse().map((cycle) => (
+            <div key={cycle.cycle} className="flex items-center gap-4 p-3 rounded-lg border border-[#333] bg-[#0F0F0F]">
+              <EagleEmblem points={cycle.points} prestige={cycle.cycle} size="sm" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-bold text-[#ddd] uppercase tracking-wider">Ciclo {cycle.cycle}</p>
+                <p className="text-[10px] text-[#555] font-mono uppercase tracking-wider flex items-center gap-1">
+                  <RefreshCw size={10} />
+                  {cycle.startedAt ? formatDate(cycle.startedAt) : 'Origem'} → {formatDate(cycle.completedAt)}
+                </p>
+              </div>
+              <span className="font-mono font-bold text-[#FFD700] shrink-0">{cycle.points} PTS</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrestigeHistory;
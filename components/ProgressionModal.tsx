@@ -1,31 +1,31 @@
 
-import React from 'react';
-import { X, Trophy, Lock, CheckCircle2, ChevronRight } from 'lucide-react';
+import React, { useState } from 'react';
+import { X, Trophy, Lock, CheckCircle2, ChevronRight, Map, ScrollText, RefreshCw, Flame, Medal } from 'lucide-react';
 import EagleEmblem from './EagleEmblem';
+import PointsLedger from './PointsLedger';
+import PrestigeHistory from './PrestigeHistory';
+import AchievementGallery from './AchievementGallery';
+import { LedgerEntry, UserStats } from '../types';
+import { RANKS, canPrestige, getNextRank } from '../services/progressionService';
 
 interface ProgressionModalProps {
   isOpen: boolean;
   onClose: () => void;
-  currentPoints: number;
+  stats: UserStats;
+  ledger: LedgerEntry[];
+  onReverseEntry: (entryId: string) => void;
+  onStartNewCycle: () => void;
 }
 
-const MILESTONES = [
-  { points: 0, label: 'Início', desc: 'A Origem' },
-  { points: 500, label: 'Despertar', desc: '1ª Quebra' },
-  { points: 1000, label: 'Consistência', desc: 'Disciplina' },
-  { points: 2500, label: 'Aprendiz', desc: 'Expansão' },
-  { points: 5000, label: 'Praticante', desc: 'Domínio' },
-  { points: 7500, label: 'Dominante', desc: 'Autoridade' },
-  { points: 10000, label: 'Lenda', desc: 'O Código' },
-];
+const ProgressionModal: React.FC<ProgressionModalProps> = ({ isOpen, onClose, stats, ledger, onReverseEntry, onStartNewCycle }) => {
+  const [tab, setTab] = useState<'ROADMAP' | 'LEDGER' | 'CYCLES' | 'ACHIEVEMENTS'>('ROADMAP');
 
-const ProgressionModal: React.FC<ProgressionModalProps> = ({ isOpen, onClose, currentPoints }) => {
   if (!isOpen) return null;
 
-  // Find next milestone
-  const nextMilestone = MILESTONES.find(m => m.points > currentPoints) || MILESTONES[MILESTONES.length - 1];
-  const pointsToNext = Math.max(0, nextMilestone.points - currentPoints);
-  const progressPercent = Math.min(100, (currentPoints / 10000) * 100);
+  const currentPoints = stats.points;
+
+  const nextRank = getNextRank(currentPoints);
+  const pointsToNext = nextRank ? nextRank.points - currentPoints : 0;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
@@ -40,21 +40,36 @@ const ProgressionModal: React.FC<ProgressionModalProps> = ({ isOpen, onClose, cu
             </h2>
             <p className="text-[#9FB4C7] text-sm font-mono mt-1">MAPA DE PROGRESSÃO VISUAL</p>
           </div>
-          <button onClick={onClose} className="text-[#555] hover:text-white transition-colors">
-            <X size={24} />
-          </button>
+          <div className="flex items-center gap-4">
+            <div className="flex bg-[#050505] rounded-lg p-1 border border-[#333]">
+              <button onClick={() => setTab('ROADMAP')} className={`px-3 py-2 text-[10px] font-bold uppercase tracking-widest rounded transition-all flex items-center gap-1 ${tab === 'ROADMAP' ? 'bg-[#333] text-white shadow' : 'text-[#555]'}`}><Map size={12} /> Mapa</button>
+              <button onClick={() => setTab('LEDGER')} className={`px-3 py-2 text-[10px] font-bold uppercase tracking-widest rounded transition-all flex items-center gap-1 ${tab === 'LEDGER' ? 'bg-[#333] text-white shadow' : 'text-[#555]'}`}><ScrollText size={12} /> Extrato</button>
+              <button onClick={() => setTab('CYCLES')} className={`px-3 py-2 text-[10px] font-bold uppercase tracking-widest rounded transition-all flex items-center gap-1 ${tab === 'CYCLES' ? 'bg-[#333] text-white shadow' : 'text-[#555]'}`}><RefreshCw size={12} /> Ciclos</button>
+              <button onClick={() => setTab('ACHIEVEMENTS')} className={`px-3 py-2 text-[10px] font-bold uppercase tracking-widest rounded transition-all flex items-center gap-1 ${tab === 'ACHIEVEMENTS' ? 'bg-[#333] text-white shadow' : 'text-[#555]'}`}><Medal size={12} /> Conquistas</button>
+            </div>
+            <button onClick={onClose} className="text-[#555] hover:text-white transition-colors">
+              <X size={24} />
+            </button>
+          </div>
         </div>
 
         {/* Status Info */}
         <div className="px-6 py-4 bg-[#111] border-b border-[#333] flex flex-col sm:flex-row justify-between items-center gap-4 shrink-0">
             <div className="flex items-center gap-3">
                <div className="bg-[#E50914]/10 p-2 rounded-full border border-[#E50914]/20">
-                   <EagleEmblem points={currentPoints} size="sm" />
+                   <EagleEmblem points={currentPoints} prestige={stats.prestige} size="sm" />
                </div>
                <div>
-                   <p className="text-xs text-[#555] uppercase font-bold">Status Atual</p>
+                   <p className="text-xs text-[#555] uppercase font-bold">Status Atual{stats.prestige > 0 && ` · Ciclo ${stats.prestige + 1}`}</p>
                    <p className="text-white font-bold text-lg">{currentPoints} PTS</p>
                </div>
+               <div className="border-l border-[#333] pl-3 ml-1">
+                   <p className="text-xs text-[#555] uppercase font-bold">Sequência</p>
+                   <p className="text-[#E50914] font-bold text-lg flex items-center gap-1">
+                       <Flame size={16} /> {stats.streak}
+                       <span className="text-[#555] text-xs font-mono ml-1">/ RECORDE {stats.bestStreak}</span>
+                   </p>
+               </div>
             </div>
             
             {pointsToNext > 0 ? (
@@ -66,13 +81,36 @@ const ProgressionModal: React.FC<ProgressionModalProps> = ({ isOpen, onClose, cu
                     <ChevronRight className="text-[#555]" />
                 </div>
             ) : (
-                <div className="text-[#FFD700] font-bold uppercase tracking-widest text-sm border border-[#FFD700] px-3 py-1 rounded">
-                    Ápice Alcançado
+                <div className="flex items-center gap-3">
+                    <div className="text-[#FFD700] font-bold uppercase tracking-widest text-sm border border-[#FFD700] px-3 py-1 rounded">
+                        Ápice Alcançado
+                    </div>
+                    {canPrestige(currentPoints) && (
+                        <button
+                          onClick={() => { if (confirm('Iniciar um novo ciclo? Sua pontuação do ciclo volta a zero, o total vitalício é mantido.')) onStartNewCycle(); }}
+                          className="bg-[#FFD700] hover:bg-yellow-500 text-black font-bold uppercase tracking-widest text-xs px-3 py-2 rounded flex items-center gap-2 shadow-[0_0_15px_rgba(255,215,0,0.4)]"
+                        >
+                            <RefreshCw size={14} /> Novo Ciclo
+                        </button>
+                    )}
                 </div>
             )}
         </div>
 
-        {/* Scrollable Roadmap */}
+        {tab === 'LEDGER' ? (
+        <div className="flex-1 overflow-y-auto p-6 scrollbar-thin scrollbar-thumb-[#333]">
+            <PointsLedger ledger={ledger} onReverseEntry={onReverseEntry} />
+        </div>
+        ) : tab === 'ACHIEVEMENTS' ? (
+        <div className="flex-1 overflow-y-auto p-6 scrollbar-thin scrollbar-thumb-[#333]">
+            <AchievementGallery achievements={stats.achievements} />
+        </div>
+        ) : tab === 'CYCLES' ? (
+        <div className="flex-1 overflow-y-auto p-6 scrollbar-thin scrollbar-thumb-[#333]">
+            <PrestigeHistory history={stats.prestigeHistory} lifetimePoints={stats.lifetimePoints} />
+        </div>
+        ) : (
+        /* Scrollable Roadmap */
         <div className="flex-1 overflow-x-auto overflow-y-hidden p-6 sm:p-12 relative flex items-center scrollbar-thin scrollbar-thumb-[#333] scrollbar-track-transparent">
             
             {/* Connection Line */}
@@ -80,12 +118,12 @@ const ProgressionModal: React.FC<ProgressionModalProps> = ({ isOpen, onClose, cu
             
             {/* Roadmap Nodes */}
             <div className="flex items-start gap-12 sm:gap-24 min-w-max mx-auto z-10 px-4">
-                {MILESTONES.map((milestone, index) => {
-                    const isUnlocked = currentPoints >= milestone.points;
-                    const isNext = !isUnlocked && (index === 0 || currentPoints >= MILESTONES[index - 1].points);
+                {RANKS.map((rank, index) => {
+                    const isUnlocked = currentPoints >= rank.points;
+                    const isNext = !isUnlocked && (index === 0 || currentPoints >= RANKS[index - 1].points);
                     
                     return (
-                        <div key={milestone.points} className={`flex flex-col items-center gap-4 relative group ${isUnlocked ? 'opacity-100' : 'opacity-60'}`}>
+                        <div key={rank.points} className={`flex flex-col items-center gap-4 relative group ${isUnlocked ? 'opacity-100' : 'opacity-60'}`}>
                             
                             {/* Node Point */}
                             <div className={`
@@ -114,10 +152,10 @@ const ProgressionModal: React.FC<ProgressionModalProps> = ({ isOpen, onClose, cu
                             {/* Info */}
                             <div className="text-center">
                                 <p className={`text-xs font-mono mb-1 ${isUnlocked ? 'text-[#E50914]' : 'text-[#555]'}`}>
-                                    {milestone.points} pts
+                                    {rank.points} pts
                                 </p>
                                 <p className={`text-sm font-bold uppercase tracking-wider mb-2 ${isUnlocked ? 'text-white' : 'text-[#777]'}`}>
-                                    {milestone.label}
+                                    {rank.label}
                                 </p>
                                 
                                 {/* Visual Badge Preview */}
@@ -129,7 +167,7 @@ const ProgressionModal: React.FC<ProgressionModalProps> = ({ isOpen, onClose, cu
                                     }
                                 `}>
                                     <EagleEmblem 
-                                        points={milestone.points} 
+                                        points={rank.points} 
                                         size="md" 
                                         locked={!isUnlocked}
                                     />
@@ -141,7 +179,7 @@ const ProgressionModal: React.FC<ProgressionModalProps> = ({ isOpen, onClose, cu
                                 </div>
                                 
                                 <p className="text-[10px] text-[#555] mt-2 uppercase tracking-widest font-mono">
-                                    {isUnlocked ? <span className="text-green-500 flex items-center justify-center gap-1"><CheckCircle2 size={10} /> Conquistado</span> : milestone.desc}
+                                    {isUnlocked ? <span className="text-green-500 flex items-center justify-center gap-1"><CheckCircle2 size={10} /> Conquistado</span> : rank.desc}
                                 </p>
                             </div>
                         </div>
@@ -149,6 +187,7 @@ const ProgressionModal: React.FC<ProgressionModalProps> = ({ isOpen, onClose, cu
                 })}
             </div>
         </div>
+        )}
 
         <div className="p-4 border-t border-[#333] bg-[#050505] text-center">
             <p className="text-[#555] text-xs font-mono uppercase">
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { KeyRound, Copy, CheckCircle2 } from 'lucide-react';
+
+interface RecoveryCodeModalProps {
+  code: string;
+  onClose: () => void;
+}
+
+// Shown once whenever a local account receives a new recovery code (register, reset, first password change).
+const RecoveryCodeModal: React.FC<RecoveryCodeModalProps> = ({ code, onClose }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch (e) {
+      console.warn("Clipboard unavailable", e);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-[#0A0A0A] w-full max-w-md rounded-2xl border border-[#FFD700]/50 shadow-[0_0_50px_rgba(0,0,0,0.8)] p-6 sm:p-8 text-center">
+        <div className="w-14 h-14 bg-[#FFD700]/10 border border-[#FFD700]/30 rounded-full mx-auto flex items-center justify-center mb-4">
+          <KeyRound size={28} className="text-[#FFD700]" />
+        </div>
+        <h2 className="text-xl font-bold uppercase tracking-widest text-white">Código de Recuperação</h2>
+        <p className="text-[#9FB4C7] text-sm mt-2">
+          Sua conta está salva apenas neste dispositivo. Este código é a única forma de redefinir a senha se você esquecê-la.
+          Guarde-o fora daqui: ele não será exibido novamente.
+        </p>
+
+        <div className="my-6 bg-[#050505] border border-[#333] rounded-lg p-4 font-mono text-lg tracking-widest text-[#FFD700] select-all break-all">
+          {code}
+        </div>
+
+        <button onClick={handleCopy} className="w-full mb-3 border border-[#333] hover:border-[#FFD700]/50 text-[#9FB4C7] hover:text-white py-3 rounded-lg text-xs font-bold uppercase tracking-widest transition-all flex items-center justify-center gap-2">
+          {copied ? <><CheckCircle2 size={14} className="text-green-500" /> Copiado</> : <><Copy size={14} /> Copiar Código</>}
+        </button>
+        <button onClick={onClose} className="w-full bg-[#E50914] hover:bg-red-700 text-white font-bold py-4 rounded-lg uppercase tracking-widest transition-all">
+          Guardei Meu Código
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCodeModal;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { RefreshCw, CloudOff, AlertCircle, Check } from 'lucide-react';
+import { SyncStatus } from '../services/syncService';
+
+interface SyncStatusBadgeProps {
+  status: SyncStatus;
+  onRetry: () => void;
+}
+
+const pendingLabel = (pending: number) => pending === 1 ? '1 pendente' : `${pending} pendentes`;
+
+// Sidebar line under the account source; clicking it syncs right away
+const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ status, onRetry }) => {
+  // lastSyncedAt arrives as a string when relayed by another tab through storage events
+  const lastSynced = status.lastSyncedAt ? new Date(status.lastSyncedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : null;
+
+  const { icon, label, color } =
+    status.state === 'syncing' ? { icon: <RefreshCw size={10} className="animate-spin" />, label: 'Sincronizando...', color: 'text-[#9FB4C7]' } :
+    status.state === 'offline' ? { icon: <CloudOff size={10} />, label: `Offline · ${pendingLabel(status.pending)}`, color: 'text-[#FFD700]' } :
+    status.state === 'error' ? { icon: <AlertCircle size={10} />, label: 'Erro na sincronização', color: 'text-[#E50914]' } :
+    status.pending > 0 ? { icon: <RefreshCw size={10} />, label: pendingLabel(status.pending), color: 'text-[#9FB4C7]' } :
+    { icon: <Check size={10} />, label: lastSynced ? `Sincronizado ${lastSynced}` : 'Sincronizado', color: 'text-green-500' };
+
+  return (
+    <button
+      onClick={onRetry}
+      title={status.error || 'Sincronizar agora'}
+      className={`text-[10px] font-mono tracking-widest uppercase flex items-center gap-1 hover:text-white transition-colors ${color}`}
+    >
+      {icon} {label}
+    </button>
+  );
+};
+
+export default SyncStatusBadge;
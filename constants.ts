@@ -1,3 +1,4 @@
+import { AwardCategory, CycleProgram, LedgerSource, StreakQualifier } from './types';
 
 export const APP_NAME = "O Mentor - Código da Evolução";
 
@@ -27,16 +28,18 @@ Sempre que o aluno demonstrar:
 3. Conclusão de um ciclo de foco.
 4. Implementação de um novo hábito.
 
-Você deve PREMIAR o aluno inserindo uma tag oculta no final da sua resposta.
-Formato da tag: \`<<<POINTS:Quantidade:Motivo>>>\`
-Exemplo: \`<<<POINTS:50:Execução impecável do plano>>>\`
+Você deve PREMIAR o aluno chamando a função \`award_points\` junto com a sua resposta (nunca escreva a premiação no texto).
+Parâmetros:
+- amount: quantidade de pontos (inteiro).
+- reason: motivo curto.
+- category: TASK_EXECUTION (1), DEEP_UNDERSTANDING (2), FOCUS_CYCLE (3) ou NEW_HABIT (4).
 
 Tabela de Pontos:
 - Pequena vitória / Entendimento: 10 a 30 pontos.
 - Execução de tarefa média: 50 pontos.
 - Grande marco / Superação: 100 pontos.
 
-Se o aluno falhar, der desculpas ou procrastinar, você pode remover pontos (embora o foco seja reforço positivo da disciplina).
+Se o aluno falhar, der desculpas ou procrastinar, você pode remover pontos com amount negativo (embora o foco seja reforço positivo da disciplina).
 
 ### ESTRUTURA OBRIGATÓRIA DE RESPOSTA (PLANO DE AÇÃO)
 
@@ -67,6 +70,57 @@ Uma frase curta de ordem.
 Direto, Firme, Estratégico. Sem "por favor", sem "talvez".
 `;
 
+// --- SCORING ---
+export const MAX_POINTS = 10000;
+// Penalties never push the score below this floor
+export const MIN_POINTS = 0;
+// Awarded when the student confirms a timed deliverable in the post-check
+export const TIMER_DELIVERY_POINTS = 50;
+// Deducted when the student admits failing a timed deliverable (0 disables it)
+export const TIMER_FAILURE_PENALTY = 20;
+
+// --- FOCUS PROGRAMS ---
+// The methods taught in SYSTEM_INSTRUCTION; the student can adjust them in ExecutionTimer before starting
+export const CYCLE_PROGRAMS: CycleProgram[] = [
+  { id: 'pomodoro', name: 'Pomodoro', focusMinutes: 25, breakMinutes: 5, longBreakMinutes: 15, longBreakEvery: 4, totalCycles: 4 },
+  { id: 'deep-focus', name: 'Foco Profundo', focusMinutes: 50, breakMinutes: 10, longBreakMinutes: 20, longBreakEvery: 2, totalCycles: 3 },
+];
+// Awarded for each focus block completed within a program (the deliverable check at the end is separate)
+export const FOCUS_CYCLE_POINTS = 15;
+// A deliverable executed on the stopwatch (FREE mode) is worth its duration, like the 50 points of a 25 min block
+export const FREE_MODE_POINTS_PER_MINUTE = 2;
+export const FREE_MODE_MAX_POINTS = 150;
+
+// --- AWARD POLICY (anti-farming) ---
+// Applied to positive awards from the sources below; penalties always pass through
+export const AWARD_POLICY: {
+  sources: LedgerSource[],
+  dailyCap: number,
+  sessionCap: number,
+  repeatDecay: number,
+  categoryCooldownMinutes: number,
+} = {
+  sources: ['chat', 'voice'],
+  dailyCap: 300,
+  sessionCap: 150,
+  repeatDecay: 0.5, // Each repeat of the same reason on the same day is worth this fraction of the previous one
+  categoryCooldownMinutes: 5,
+};
+
+// --- STREAK ---
+// Any enabled qualifier marks the day as executed
+export const STREAK_RULES: { qualifiers: StreakQualifier[], minDailyPoints: number } = {
+  qualifiers: ['TIMER_DELIVERABLE', 'POINTS_THRESHOLD'],
+  minDailyPoints: 50,
+};
+
+export const AWARD_CATEGORY_LABELS: Record<AwardCategory, string> = {
+  TASK_EXECUTION: 'Execução de Tarefa',
+  DEEP_UNDERSTANDING: 'Compreensão Profunda',
+  FOCUS_CYCLE: 'Ciclo de Foco',
+  NEW_HABIT: 'Novo Hábito',
+};
+
 export const INITIAL_MESSAGE = `Bem-vindo ao Mentor do Código da Evolução.
 Aqui não existe confusão, só direção.
 Me diga onde você está travado agora — e vamos estruturar.`;
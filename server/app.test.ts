@@ -0,0 +1,327 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AppContext } from './app';
+import { createStubUpstream } from './gemini';
+import { TestServer, startTestServer } from './testServer';
+
+const servers: TestServer[] = [];
+
+const startServer = async (overrides: Partial<AppContext> = {}) => {
+  const server = await startTestServer(overrides);
+  servers.push(server);
+  return server;
+};
+
+const register = async (server: TestServer, email = 'ana@example.com') => {
+  const { status, body } = await server.request('/auth/register', { method: 'POST', body: { name: 'Ana', email, password: 'segredo123' } });
+  expect(status).toBe(201);
+  return body as { user: { id: string }, token: string, refreshToken: string, expiresIn: number };
+};
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(s => s.close()));
+});
+
+describe('auth routes', () => {
+  it('registers, logs in and refreshes a session', async () => {
+    const server = await startServer();
+    const session = await register(server, ' Ana@Example.com ');
+    expect(session.user).toMatchObject({ name: 'Ana', email: 'ana@example.com' });
+    expect(session.expiresIn).toBeGreaterThan(0);
+
+    const login = await server.request('/auth/login', { method: 'POST', body: { email: 'ana@example.com', password: 'segredo123' } });
+    expect(login.status).toBe(200);
+    expect(login.body.user.id).toBe(session.user.id);
+
+    const refreshed = await server.request('/auth/refresh', { method: 'POST', body: { refreshToken: login.body.refreshToken } });
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.body.refreshToken).not.toBe(login.body.refreshToken);
+
+    // Refresh tokens are single use
+    const reused = await server.request('/auth/refresh', { method: 'POST', body: { refreshToken: login.body.refreshToken } });
+    expect(reused.status).toBe(401);
+  });
+
+  it('rejects duplicate e-mails, wrong passwords and short passwords', async () => {
+    const server = await startServer();
+    await register(server);
+
+    const duplicate = await server.request('/auth/register', { method: 'POST', body: { name: 'Ana', email: 'ana@example.com', password: 'outra123' } });
+    expect(duplicate.status).toBe(409);
+
+    const wrong = await server.request('/auth/login', { method: 'POST', body: { email: 'ana@example.com', password: 'errada123' } });
+    expect(wrong.status).toBe(401);
+    expect(wrong.body.message).toBe('Credenciais inválidas.');
+
+    const short = await server.request('/auth/register', { method: 'POST', body: { name: 'Bia', email: 'bia@example.com', password: '123' } });
+    expect(short.status).toBe(400);
+  });
+
+  it('stores only a hash of the password', async () => {
+    const server = await startServer();
+    const { user } = await register(server);
+    const stored = server.ctx.store.findUserById(user.id)!;
+    expect(JSON.stringify(stored)).not.toContain('segredo123');
+    expect(stored.credentials.iterations).toBeGreaterThan(0);
+  });
+});
+
+describe('password reset', () => {
+  it('hands the token to the configured delivery and resets with it once', async () => {
+    const delivered: Array<[string, string]> = [];
+    const server = await startServer({ sendPasswordReset: async (user, token) => { delivered.push([user.email, token]); } });
+    await register(server);
+
+    const unknown = await server.request('/auth/password/forgot', { method: 'POST', body: { email: 'bia@example.com' } });
+    const known = await server.request('/auth/password/forgot', { method: 'POST', body: { email: 'ana@example.com' } });
+    expect(known).toEqual(unknown);
+    expect(known.status).toBe(202);
+    expect(delivered.map(([email]) => email)).toEqual(['ana@example.com']);
+
+    const [[, token]] = delivered;
+    const reset = await server.request('/auth/password/reset', { method: 'POST', body: { token, password: 'novasenha1' } });
+    expect(reset.status).toBe(200);
+    expect((await server.request('/auth/password/reset', { method: 'POST', body: { token, password: 'outra1234' } })).status).toBe(400);
+    expect((await server.request('/auth/login', { method: 'POST', body: { email: 'ana@example.com', password: 'novasenha1' } })).status).toBe(200);
+  });
+
+  it('answers the same when the delivery fails', async () => {
+    const server = await startServer({ sendPasswordReset: async () => { throw new Error('SMTP fora do ar'); } });
+    await register(server);
+    const res = await server.request('/auth/password/forgot', { method: 'POST', body: { email: 'ana@example.com' } });
+    expect(res.status).toBe(202);
+  });
+
+  it('is unavailable without a delivery', async () => {
+    const server = await startServer({ sendPasswordReset: null });
+    const res = await server.request('/auth/password/forgot', { method: 'POST', body: { email: 'ana@example.com' } });
+    expect(res).toEqual({ status: 503, body: { message: 'Redefinição de senha não configurada no servidor.' } });
+  });
+});
+
+describe('/data/:collection', () => {
+  it('requires a valid session and a known collection', async () => {
+    const server = await startServer();
+    expect((await server.request('/data/sessions')).status).toBe(401);
+
+    const { token } = await register(server);
+    expect((await server.request('/data/unknown', { token })).status).toBe(404);
+    expect((await server.request('/data/sessions?since=-1', { token })).status).toBe(400);
+  });
+
+  it('applies changes and lists them from a revision on', async () => {
+    const server = await startServer();
+    const { token } = await register(server);
+
+    const push = await server.request('/data/sessions', {
+      method: 'POST',
+      token,
+      body: { changes: [{ id: 'a', baseRev: 0, data: { id: 'a', title: 'Um' } }, { id: 'b', baseRev: 0, data: { id: 'b', title: 'Dois' } }] },
+    });
+    expect(push.status).toBe(200);
+    expect(push.body.results).toEqual([{ id: 'a', status: 'applied', rev: 1 }, { id: 'b', status: 'applied', rev: 2 }]);
+
+    const all = await server.request('/data/sessions?since=0', { token });
+    expect(all.body.rev).toBe(2);
+    expect(all.body.records.map((r: any) => r.data.title)).toEqual(['Um', 'Dois']);
+
+    await server.request('/data/sessions', { method: 'POST', token, body: { changes: [{ id: 'a', baseRev: 1, deleted: true }] } });
+    const since = await server.request('/data/sessions?since=2', { token });
+    expect(since.body.records).toEqual([expect.objectContaining({ id: 'a', rev: 3, deleted: true, data: null })]);
+  });
+
+  it('keeps each user apart', async () => {
+    const server = await startServer();
+    const ana = await register(server);
+    const bia = await register(server, 'bia@example.com');
+
+    await server.request('/data/maps', { method: 'POST', token: ana.token, body: { changes: [{ id: 'm', baseRev: 0, data: { id: 'm' } }] } });
+    const other = await server.request('/data/maps', { token: bia.token });
+    expect(other.body).toEqual({ records: [], rev: 0 });
+  });
+
+  it('reports stale changes as conflicts carrying the stored record', async () => {
+    const server = await startServer();
+    const { token } = await register(server);
+    await server.request('/data/stats', { method: 'POST', token, body: { changes: [{ id: 'current', baseRev: 0, data: { totalPoints: 10 } }] } });
+    await server.request('/data/stats', { method: 'POST', token, body: { changes: [{ id: 'current', baseRev: 1, data: { totalPoints: 20 } }] } });
+
+    // A device that only saw revision 1, and one that never saw the record
+    const stale = await server.request('/data/stats', { method: 'POST', token, body: { changes: [{ id: 'current', baseRev: 1, data: { totalPoints: 15 } }] } });
+    const unseen = await server.request('/data/stats', { method: 'POST', token, body: { changes: [{ id: 'current', baseRev: 0, data: { totalPoints: 5 } }] } });
+
+    for (const { body } of [stale, unseen]) {
+      expect(body.results).toEqual([{ id: 'current', status: 'conflict', record: expect.objectContaining({ rev: 2, data: { totalPoints: 20 } }) }]);
+    }
+  });
+
+  it('rejects malformed change lists', async () => {
+    const server = await startServer();
+    const { token } = await register(server);
+    const missingRev = await server.request('/data/sessions', { method: 'POST', token, body: { changes: [{ id: 'a', data: {} }] } });
+    expect(missingRev.status).toBe(400);
+  });
+});
+
+describe('ledger', () => {
+  const entry = { id: 'e1', amount: 10, reason: 'Entrega', category: 'TASK_EXECUTION', timestamp: '2026-01-01T10:00:00.000Z' };
+
+  const pushLedger = (server: TestServer, token: string, change: object) =>
+    server.request('/data/ledger', { method: 'POST', token, body: { changes: [change] } });
+
+  it('accepts new entries and reversals', async () => {
+    const server = await startServer();
+    const { token } = await register(server);
+    expect((await pushLedger(server, token, { id: 'e1', baseRev: 0, data: entry })).body.results[0].status).toBe('applied');
+
+    const reversal = await pushLedger(server, token, { id: 'e1', baseRev: 1, data: { ...entry, reversedAt: '2026-01-02T10:00:00.000Z' } });
+    expect(reversal.body.results[0]).toEqual({ id: 'e1', status: 'applied', rev: 2 });
+  });
+
+  it('rejects deletions and edits of stored entries', async () => {
+    const server = await startServer();
+    const { token } = await register(server);
+    await pushLedger(server, token, { id: 'e1', baseRev: 0, data: entry });
+
+    const deletion = await pushLedger(server, token, { id: 'e1', baseRev: 1, deleted: true });
+    expect(deletion.body.results).toEqual([{ id: 'e1', status: 'rejected', message: 'O extrato não aceita exclusões.' }]);
+
+    const edit = await pushLedger(server, token, { id: 'e1', baseRev: 1, data: { ...entry, amount: 1000 } });
+    expect(edit.body.results).toEqual([{ id: 'e1', status: 'rejected', message: 'Lançamentos do extrato só podem ser estornados.' }]);
+
+    await pushLedger(server, token, { id: 'e1', baseRev: 1, data: { ...entry, reversedAt: '2026-01-02T10:00:00.000Z' } });
+    const undo = await pushLedger(server, token, { id: 'e1', baseRev: 2, data: entry });
+    expect(undo.body.results[0].status).toBe('rejected');
+
+    const stored = await server.request('/data/ledger', { token });
+    expect(stored.body.records).toEqual([expect.objectContaining({ rev: 2, data: { ...entry, reversedAt: '2026-01-02T10:00:00.000Z' } })]);
+  });
+
+  it('reports a stale edit as a conflict instead of judging it', async () => {
+    const server = await startServer();
+    const { token } = await register(server);
+    await pushLedger(server, token, { id: 'e1', baseRev: 0, data: entry });
+
+    const stale = await pushLedger(server, token, { id: 'e1', baseRev: 0, data: { ...entry, amount: 1000 } });
+    expect(stale.body.results[0]).toMatchObject({ id: 'e1', status: 'conflict', record: { rev: 1, data: entry } });
+  });
+});
+
+describe('/ai proxy', () => {
+  const chat = { history: [{ role: 'user', parts: [{ text: 'Oi' }] }, { role: 'model', parts: [{ text: 'Execute.' }] }], message: 'Qual o próximo passo?' };
+  const STUB_AWARD = { amount: 10, reason: 'Resposta simulada', category: 'TASK_EXECUTION' };
+
+  const readStream = async (server: TestServer, token?: string) => {
+    const res = await fetch(`${server.url}/ai/chat/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token && { Authorization: `Bearer ${token}` }) },
+      body: JSON.stringify(chat),
+    });
+    return { res, text: await res.text() };
+  };
+
+  describe('with AI_REQUIRES_AUTH', () => {
+    it.each(['/ai/chat', '/ai/chat/stream', '/ai/mental-map', '/ai/live-token'])('rejects anonymous calls to %s', async path => {
+      const server = await startServer();
+      const { status, body } = await server.request(path, { method: 'POST', body: { ...chat, topic: 'Foco' } });
+      expect(status).toBe(401);
+      expect(body.message).toBe('Sessão inválida ou expirada.');
+    });
+
+    it('answers signed-in users', async () => {
+      const server = await startServer();
+      const { token } = await register(server);
+
+      const reply = await server.request('/ai/chat', { method: 'POST', token, body: chat });
+      expect(reply).toEqual({ status: 200, body: { text: '[stub] Qual o próximo passo?', awards: [STUB_AWARD] } });
+
+      const map = await server.request('/ai/mental-map', { method: 'POST', token, body: { topic: 'Foco' } });
+      expect(map.status).toBe(200);
+      expect(map.body.text.startsWith('Foco\n')).toBe(true);
+
+      const live = await server.request('/ai/live-token', { method: 'POST', token });
+      expect(live.status).toBe(200);
+      expect(live.body.token).toBe('stub-ephemeral-token');
+      expect(new Date(live.body.expiresAt).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('streams to signed-in users', async () => {
+      const server = await startServer();
+      const { token } = await register(server);
+      const { res, text } = await readStream(server, token);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toContain('application/x-ndjson');
+      expect(text).toContain('"text":"[stub] "');
+    });
+  });
+
+  describe('without AI_REQUIRES_AUTH', () => {
+    it('answers anonymous calls', async () => {
+      const server = await startServer({ aiRequiresAuth: false });
+      expect((await server.request('/ai/chat', { method: 'POST', body: chat })).body.text).toBe('[stub] Qual o próximo passo?');
+      expect((await server.request('/ai/mental-map', { method: 'POST', body: { topic: 'Foco' } })).status).toBe(200);
+      expect((await server.request('/ai/live-token', { method: 'POST' })).body.token).toBe('stub-ephemeral-token');
+    });
+
+    it('still validates the request', async () => {
+      const server = await startServer({ aiRequiresAuth: false });
+      const badHistory = await server.request('/ai/chat', { method: 'POST', body: { history: [{ role: 'user', parts: [{}] }], message: 'Oi' } });
+      expect(badHistory).toEqual({ status: 400, body: { message: 'Campo inválido: history.' } });
+      expect((await server.request('/ai/mental-map', { method: 'POST', body: {} })).status).toBe(400);
+    });
+
+    it('accepts the awards of earlier model turns and checks their shape', async () => {
+      const server = await startServer({ aiRequiresAuth: false });
+      const awarded = { role: 'model', parts: [{ text: '' }], awards: [STUB_AWARD] };
+      expect((await server.request('/ai/chat', { method: 'POST', body: { ...chat, history: [...chat.history, awarded] } })).status).toBe(200);
+
+      const malformed = { ...awarded, awards: [{ amount: 'dez' }] };
+      expect((await server.request('/ai/chat', { method: 'POST', body: { ...chat, history: [malformed] } })).status).toBe(400);
+    });
+  });
+
+  describe('/ai/chat/stream framing', () => {
+    it('sends one JSON object per line, each ending with a newline', async () => {
+      const server = await startServer({ aiRequiresAuth: false });
+      const { text } = await readStream(server);
+
+      expect(text.endsWith('\n')).toBe(true);
+      const lines = text.slice(0, -1).split('\n').map(line => JSON.parse(line));
+      expect(lines.length).toBeGreaterThan(2);
+      expect(lines.map(l => l.text).join('')).toBe('[stub] Qual o próximo passo?');
+      expect(lines.flatMap(l => l.awards)).toEqual([STUB_AWARD]);
+    });
+
+    it('reports a failure after the first chunk as a final error line', async () => {
+      const gemini = {
+        ...createStubUpstream(),
+        streamChat: async function* () {
+          yield { text: 'Parcial', awards: [] };
+          throw new Error('SAFETY');
+        },
+      };
+      const server = await startServer({ aiRequiresAuth: false, gemini });
+      const { res, text } = await readStream(server);
+
+      expect(res.status).toBe(200);
+      expect(text.split('\n')).toEqual([
+        JSON.stringify({ text: 'Parcial', awards: [] }),
+        JSON.stringify({ error: 'Bloqueio de Segurança do Modelo. (SAFETY)' }),
+        '',
+      ]);
+    });
+  });
+
+  it('reports upstream failures as 502 and a missing key as 503', async () => {
+    const failing = await startServer({
+      aiRequiresAuth: false,
+      gemini: { ...createStubUpstream(), chat: async () => { throw new Error('quota'); } },
+    });
+    expect(await failing.request('/ai/chat', { method: 'POST', body: chat })).toEqual({
+      status: 502,
+      body: { message: 'Erro de conexão com o Mentor. (quota)' },
+    });
+
+    const keyless = await startServer({ aiRequiresAuth: false, gemini: null });
+    expect((await keyless.request('/ai/chat', { method: 'POST', body: chat })).status).toBe(503);
+  });
+});
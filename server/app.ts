@@ -0,0 +1,434 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { ChangeResult, FileStore, RecordChange, StoredUser, SyncRecord, USER_COLLECTIONS, UserCollection } from './store';
+import {
+  ACCESS_TOKEN_TTL_SECONDS, REFRESH_TOKEN_TTL_MS, RESET_TOKEN_TTL_MS, TokenSigner,
+  generateId, generateRefreshToken, generateResetToken, hashPassword, hashToken, verifyPassword,
+} from './auth';
+import { GeminiUpstream } from './gemini';
+import { ChatHistory } from '../services/mentorModel';
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const MAX_CHANGES = 500;
+
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/** Delivers a password reset token to the user (e-mail, SMS...). */
+export type PasswordResetDelivery = (user: StoredUser, token: string) => Promise<void>;
+
+export interface AppContext {
+  store: FileStore;
+  tokens: TokenSigner;
+  corsOrigin: string;
+  /** null when the server cannot deliver reset tokens: /auth/password/forgot then answers 503. */
+  sendPasswordReset: PasswordResetDelivery | null;
+  /** null when the server has no Gemini key: the /ai routes then answer 503. */
+  gemini: GeminiUpstream | null;
+  /** When false, /ai routes accept anonymous calls (e.g. users still on local auth). */
+  aiRequiresAuth: boolean;
+}
+
+/** Handler result streamed as newline-delimited JSON instead of a single body. */
+export class NdjsonStream {
+  constructor(readonly open: (signal: AbortSignal) => AsyncIterable<unknown>) {}
+}
+
+type Handler = (req: IncomingMessage, ctx: AppContext, params: Record<string, string>) => Promise<[number, unknown]>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: Handler;
+}
+
+// --- Helpers ---
+
+const readJson = async (req: IncomingMessage): Promise<any> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Corpo da requisição muito grande.');
+    chunks.push(chunk);
+  }
+  if (chunks.length === 0) return {};
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch (e) {
+    throw new HttpError(400, 'JSON inválido.');
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const sendNdjson = async (res: ServerResponse, status: number, stream: NdjsonStream) => {
+  // Client went away (Stop button, tab closed): cancel the upstream generation too
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  res.writeHead(status, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+  try {
+    for await (const line of stream.open(controller.signal)) {
+      if (controller.signal.aborted) break;
+      res.write(JSON.stringify(line) + '\n');
+    }
+  } catch (e: any) {
+    // Headers are already sent, so failures travel as a final error line
+    if (!controller.signal.aborted) {
+      console.error('[Mentor Server] Stream failed:', e);
+      res.write(JSON.stringify({ error: upstreamMessage(e) }) + '\n');
+    }
+  }
+  res.end();
+};
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `Campo obrigatório: ${field}.`);
+  return value;
+};
+
+const requirePassword = (value: unknown, field: string): string => {
+  const password = requireString(value, field);
+  if (password.length < 6) throw new HttpError(400, 'A senha deve ter ao menos 6 caracteres.');
+  return password;
+};
+
+const toProfile = (user: StoredUser) => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  createdAt: user.createdAt,
+});
+
+/** Response shape shared by register, login and refresh (see server/README.md). */
+const issueSession = async (ctx: AppContext, user: StoredUser) => {
+  const refreshToken = generateRefreshToken();
+  await ctx.store.saveRefreshToken({ token: refreshToken, userId: user.id, expiresAt: Date.now() + REFRESH_TOKEN_TTL_MS });
+  return {
+    user: toProfile(user),
+    token: ctx.tokens.issue(user.id),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+  };
+};
+
+export const authenticate = (req: IncomingMessage, ctx: AppContext): StoredUser => {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  const payload = token ? ctx.tokens.verify(token) : null;
+  const user = payload ? ctx.store.findUserById(payload.sub) : undefined;
+  if (!user) throw new HttpError(401, 'Sessão inválida ou expirada.');
+  return user;
+};
+
+const isAward = (award: any) =>
+  award && Number.isFinite(award.amount) && typeof award.reason === 'string' && typeof award.category === 'string';
+
+const requireHistory = (value: unknown): ChatHistory => {
+  const valid = Array.isArray(value) && value.every(turn =>
+    turn && typeof turn.role === 'string' && Array.isArray(turn.parts) &&
+    turn.parts.every((part: any) => part && typeof part.text === 'string') &&
+    (turn.awards === undefined || (Array.isArray(turn.awards) && turn.awards.every(isAward)))
+  );
+  if (!valid) throw new HttpError(400, 'Campo inválido: history.');
+  return value as ChatHistory;
+};
+
+const requireGemini = (req: IncomingMessage, ctx: AppContext): GeminiUpstream => {
+  if (ctx.aiRequiresAuth) authenticate(req, ctx);
+  if (!ctx.gemini) throw new HttpError(503, 'Proxy de IA sem chave configurada no servidor.');
+  return ctx.gemini;
+};
+
+const upstreamMessage = (e: any) => {
+  let msg = 'Erro de conexão com o Mentor.';
+  if (e?.message?.includes('SAFETY')) msg = 'Bloqueio de Segurança do Modelo.';
+  return `${msg} (${e?.message || 'Erro desconhecido'})`;
+};
+
+/** Upstream failures are reported as 502 so the client can tell them apart from its own mistakes. */
+const callUpstream = async <T>(operation: () => Promise<T>): Promise<T> => {
+  try {
+    return await operation();
+  } catch (e: any) {
+    console.error('[Mentor Server] Gemini call failed:', e);
+    throw new HttpError(502, upstreamMessage(e));
+  }
+};
+
+const toCollection = (name: string): UserCollection => {
+  if (!(USER_COLLECTIONS as readonly string[]).includes(name)) throw new HttpError(404, 'Coleção desconhecida.');
+  return name as UserCollection;
+};
+
+const requireRevision = (value: string | null): number => {
+  const rev = Number(value ?? 0);
+  if (!Number.isInteger(rev) || rev < 0) throw new HttpError(400, 'Parâmetro inválido: since.');
+  return rev;
+};
+
+const requireChanges = (value: unknown): RecordChange[] => {
+  const valid = Array.isArray(value) && value.length <= MAX_CHANGES && value.every(change =>
+    change && typeof change.id === 'string' && change.id &&
+    Number.isInteger(change.baseRev) && change.baseRev >= 0 &&
+    (change.deleted === true || 'data' in change)
+  );
+  if (!valid) throw new HttpError(400, 'Campo inválido: changes.');
+  return value as RecordChange[];
+};
+
+/** The ledger is append-only: entries are never deleted and, once stored, can only gain a reversal. */
+const ledgerViolation = (stored: SyncRecord | undefined, change: RecordChange): string | null => {
+  if (change.deleted) return 'O extrato não aceita exclusões.';
+  // Stale changes are conflicts (reported by the store), merged by the client before they are judged
+  if (!stored || stored.deleted || stored.rev !== change.baseRev) return null;
+  const before = stored.data as Record<string, unknown>;
+  const after = (change.data ?? {}) as Record<string, unknown>;
+  const changed = Object.keys({ ...before, ...after }).some(key => key === 'reversedAt'
+    ? before.reversedAt !== undefined && before.reversedAt !== after.reversedAt
+    : JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+  return changed ? 'Lançamentos do extrato só podem ser estornados.' : null;
+};
+
+// --- Routes ---
+
+const routes: Route[] = [
+  {
+    method: 'POST',
+    pattern: /^\/auth\/register$/,
+    handler: async (req, ctx) => {
+      const body = await readJson(req);
+      const name = requireString(body.name, 'name').trim();
+      const email = requireString(body.email, 'email').toLowerCase().trim();
+      const password = requirePassword(body.password, 'password');
+      if (ctx.store.findUserByEmail(email)) throw new HttpError(409, 'Este e-mail já está registrado no sistema.');
+
+      const user: StoredUser = {
+        id: generateId(),
+        name,
+        email,
+        createdAt: new Date().toISOString(),
+        credentials: await hashPassword(password),
+      };
+      await ctx.store.addUser(user);
+      return [201, await issueSession(ctx, user)];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/auth\/login$/,
+    handler: async (req, ctx) => {
+      const body = await readJson(req);
+      const email = requireString(body.email, 'email').toLowerCase().trim();
+      const password = requireString(body.password, 'password');
+
+      const user = ctx.store.findUserByEmail(email);
+      if (!user || !(await verifyPassword(password, user.credentials))) {
+        throw new HttpError(401, 'Credenciais inválidas.');
+      }
+      return [200, await issueSession(ctx, user)];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/auth\/refresh$/,
+    handler: async (req, ctx) => {
+      const body = await readJson(req);
+      const refreshToken = requireString(body.refreshToken, 'refreshToken');
+
+      const record = ctx.store.findRefreshToken(refreshToken);
+      const user = record && record.expiresAt > Date.now() ? ctx.store.findUserById(record.userId) : undefined;
+      if (!record || !user) throw new HttpError(401, 'Sessão expirada.');
+
+      // Refresh tokens are single use
+      await ctx.store.revokeRefreshToken(refreshToken);
+      return [200, await issueSession(ctx, user)];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/auth\/password\/forgot$/,
+    handler: async (req, ctx) => {
+      if (!ctx.sendPasswordReset) throw new HttpError(503, 'Redefinição de senha não configurada no servidor.');
+      const body = await readJson(req);
+      const email = requireString(body.email, 'email').toLowerCase().trim();
+
+      // Same answer whether or not the e-mail exists (or the delivery failed), so accounts cannot be enumerated
+      const user = ctx.store.findUserByEmail(email);
+      if (user) {
+        const token = generateResetToken();
+        await ctx.store.savePasswordReset({ tokenHash: hashToken(token), userId: user.id, expiresAt: Date.now() + RESET_TOKEN_TTL_MS });
+        await ctx.sendPasswordReset(user, token).catch(e => console.error('[Mentor Server] Password reset delivery failed:', e));
+      }
+      return [202, { message: 'Se o e-mail estiver registrado, as instruções de redefinição foram enviadas.' }];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/auth\/password\/reset$/,
+    handler: async (req, ctx) => {
+      const body = await readJson(req);
+      const token = requireString(body.token, 'token');
+      const password = requirePassword(body.password, 'password');
+
+      const record = await ctx.store.consumePasswordReset(hashToken(token.trim()));
+      const user = record && record.expiresAt > Date.now() ? ctx.store.findUserById(record.userId) : undefined;
+      if (!user) throw new HttpError(400, 'Código de redefinição inválido ou expirado.');
+
+      await ctx.store.updateCredentials(user.id, await hashPassword(password));
+      await ctx.store.revokeUserRefreshTokens(user.id);
+      return [200, { message: 'Senha redefinida. Acesse com a nova senha.' }];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/auth\/password\/change$/,
+    handler: async (req, ctx) => {
+      const user = authenticate(req, ctx);
+      const body = await readJson(req);
+      const currentPassword = requireString(body.currentPassword, 'currentPassword');
+      const newPassword = requirePassword(body.newPassword, 'newPassword');
+
+      // 403, not 401: the session is fine, only the confirmation failed
+      if (!(await verifyPassword(currentPassword, user.credentials))) throw new HttpError(403, 'Senha atual incorreta.');
+
+      await ctx.store.updateCredentials(user.id, await hashPassword(newPassword));
+      // Other devices are signed out; this one continues with a fresh session
+      await ctx.store.revokeUserRefreshTokens(user.id);
+      return [200, await issueSession(ctx, ctx.store.findUserById(user.id)!)];
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/account\/export$/,
+    handler: async (req, ctx) => {
+      const user = authenticate(req, ctx);
+      return [200, {
+        exportedAt: new Date().toISOString(),
+        profile: toProfile(user),
+        data: ctx.store.getAllCollections(user.id),
+      }];
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/account$/,
+    handler: async (req, ctx) => {
+      const user = authenticate(req, ctx);
+      const body = await readJson(req);
+      const password = requireString(body.password, 'password');
+      if (!(await verifyPassword(password, user.credentials))) throw new HttpError(403, 'Senha incorreta.');
+
+      await ctx.store.deleteUser(user.id);
+      return [200, { message: 'Conta excluída.' }];
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/data\/(?<collection>[a-z]+)$/,
+    handler: async (req, ctx, params) => {
+      const user = authenticate(req, ctx);
+      const collection = toCollection(params.collection);
+      const since = requireRevision(new URL(req.url || '/', 'http://localhost').searchParams.get('since'));
+      return [200, ctx.store.listChanges(user.id, collection, since)];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/data\/(?<collection>[a-z]+)$/,
+    handler: async (req, ctx, params) => {
+      const user = authenticate(req, ctx);
+      const collection = toCollection(params.collection);
+      const changes = requireChanges((await readJson(req)).changes);
+
+      const rejected: ChangeResult[] = [];
+      const accepted = changes.filter(change => {
+        const violation = collection === 'ledger' ? ledgerViolation(ctx.store.getRecord(user.id, 'ledger', change.id), change) : null;
+        if (violation) rejected.push({ id: change.id, status: 'rejected', message: violation });
+        return !violation;
+      });
+      const results = await ctx.store.applyChanges(user.id, collection, accepted);
+      return [200, { results: [...results, ...rejected] }];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/ai\/chat$/,
+    handler: async (req, ctx) => {
+      const gemini = requireGemini(req, ctx);
+      const body = await readJson(req);
+      const history = requireHistory(body.history);
+      const message = requireString(body.message, 'message');
+      return [200, await callUpstream(() => gemini.chat(history, message))];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/ai\/chat\/stream$/,
+    handler: async (req, ctx) => {
+      const gemini = requireGemini(req, ctx);
+      const body = await readJson(req);
+      const history = requireHistory(body.history);
+      const message = requireString(body.message, 'message');
+      return [200, new NdjsonStream(signal => gemini.streamChat(history, message, signal))];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/ai\/mental-map$/,
+    handler: async (req, ctx) => {
+      const gemini = requireGemini(req, ctx);
+      const body = await readJson(req);
+      const topic = requireString(body.topic, 'topic');
+      return [200, { text: await callUpstream(() => gemini.mentalMap(topic)) }];
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/ai\/live-token$/,
+    handler: async (req, ctx) => {
+      const gemini = requireGemini(req, ctx);
+      return [200, await callUpstream(() => gemini.createLiveToken())];
+    },
+  },
+];
+
+export const createRequestHandler = (ctx: AppContext) => async (req: IncomingMessage, res: ServerResponse) => {
+  res.setHeader('Access-Control-Allow-Origin', ctx.corsOrigin);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  const pathMatches = routes.filter(r => r.pattern.test(pathname));
+  const route = pathMatches.find(r => r.method === req.method);
+
+  try {
+    if (!route) {
+      throw pathMatches.length > 0 ? new HttpError(405, 'Método não permitido.') : new HttpError(404, 'Rota não encontrada.');
+    }
+    const params = route.pattern.exec(pathname)?.groups ?? {};
+    const [status, body] = await route.handler(req, ctx, params);
+    if (body instanceof NdjsonStream) await sendNdjson(res, status, body);
+    else sendJson(res, status, body);
+  } catch (e: any) {
+    if (e instanceof HttpError) {
+      sendJson(res, e.status, { message: e.message });
+      return;
+    }
+    console.error('[Mentor Server] Unhandled error:', e);
+    sendJson(res, 500, { message: 'Erro interno do servidor.' });
+  }
+};
@@ -0,0 +1,80 @@
+import { createHash, createHmac, pbkdf2, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+const pbkdf2Async = promisify(pbkdf2);
+
+// Same parameters as the browser's local store (services/passwordService.ts)
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BYTES = 32;
+
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const RESET_TOKEN_TTL_MS = 30 * 60 * 1000;
+
+export interface PasswordHash {
+  hash: string;
+  salt: string;
+  iterations: number;
+}
+
+export interface AccessTokenPayload {
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await pbkdf2Async(password, salt, ITERATIONS, HASH_BYTES, 'sha256');
+  return { hash: hash.toString('base64'), salt: salt.toString('base64'), iterations: ITERATIONS };
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  const expected = Buffer.from(stored.hash, 'base64');
+  const actual = await pbkdf2Async(password, Buffer.from(stored.salt, 'base64'), stored.iterations, expected.length, 'sha256');
+  return timingSafeEqual(actual, expected);
+};
+
+const base64Url = (value: Buffer | string) => Buffer.from(value).toString('base64url');
+
+/** HS256 JWT signer/verifier bound to one secret. */
+export const createTokenSigner = (secret: string) => {
+  const sign = (body: string) => createHmac('sha256', secret).update(body).digest();
+
+  return {
+    issue(userId: string): string {
+      const now = Date.now();
+      const payload: AccessTokenPayload = { sub: userId, iat: now, exp: now + ACCESS_TOKEN_TTL_SECONDS * 1000 };
+      const body = `${base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64Url(JSON.stringify(payload))}`;
+      return `${body}.${base64Url(sign(body))}`;
+    },
+
+    /** Returns the payload for a valid, unexpired token; null otherwise. */
+    verify(token: string): AccessTokenPayload | null {
+      const [header, payload, signature] = token.split('.');
+      if (!header || !payload || !signature) return null;
+
+      const expected = sign(`${header}.${payload}`);
+      const actual = Buffer.from(signature, 'base64url');
+      if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+      try {
+        const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as AccessTokenPayload;
+        return decoded.exp > Date.now() ? decoded : null;
+      } catch (e) {
+        return null;
+      }
+    },
+  };
+};
+
+export type TokenSigner = ReturnType<typeof createTokenSigner>;
+
+export const generateId = () => randomUUID();
+
+export const generateRefreshToken = () => randomBytes(32).toString('base64url');
+
+export const generateResetToken = () => randomBytes(32).toString('base64url');
+
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
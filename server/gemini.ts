@@ -0,0 +1,106 @@
+import { GoogleGenAI } from '@google/genai';
+import { MentorResponse } from '../types';
+import {
+  CHAT_CONFIG, CHAT_MODEL, ChatHistory, MAP_CONFIG, MAP_MODEL,
+  assertNotEmpty, buildChatContents, buildMentalMapPrompt, readParts,
+} from '../services/mentorModel';
+
+/** Lifetime of the ephemeral tokens handed to LiveVoice. */
+const LIVE_TOKEN_TTL_MS = 30 * 60 * 1000;
+/** Window in which the browser must open the Live session with a fresh token. */
+const LIVE_TOKEN_START_WINDOW_MS = 60 * 1000;
+
+export interface LiveToken {
+  token: string;
+  expiresAt: string;
+}
+
+/**
+ * Everything the proxy routes need from Gemini.
+ * The real implementation wraps @google/genai; tests can pass any object with this shape.
+ */
+export interface GeminiUpstream {
+  chat(history: ChatHistory, message: string): Promise<MentorResponse>;
+  /** Yields one delta per upstream chunk (`text` is the new text only, not the accumulated one). */
+  streamChat(history: ChatHistory, message: string, signal: AbortSignal): AsyncIterable<MentorResponse>;
+  mentalMap(topic: string): Promise<string>;
+  createLiveToken(): Promise<LiveToken>;
+}
+
+export const createGeminiUpstream = (apiKey: string): GeminiUpstream => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    chat: async (history, message) => {
+      const response = await ai.models.generateContent({
+        model: CHAT_MODEL,
+        contents: buildChatContents(history, message),
+        config: CHAT_CONFIG,
+      });
+      const result = readParts(response);
+      assertNotEmpty(result, response);
+      return result;
+    },
+
+    streamChat: async function* (history, message, signal) {
+      const stream = await ai.models.generateContentStream({
+        model: CHAT_MODEL,
+        contents: buildChatContents(history, message),
+        config: { ...CHAT_CONFIG, abortSignal: signal },
+      });
+      for await (const chunk of stream) {
+        yield readParts(chunk);
+      }
+    },
+
+    mentalMap: async (topic) => {
+      const response = await ai.models.generateContent({
+        model: MAP_MODEL,
+        contents: { parts: [{ text: buildMentalMapPrompt(topic) }] },
+        config: MAP_CONFIG,
+      });
+      return response.text || 'Erro ao gerar mapa.';
+    },
+
+    createLiveToken: async () => {
+      const expiresAt = new Date(Date.now() + LIVE_TOKEN_TTL_MS).toISOString();
+      const token = await ai.authTokens.create({
+        config: {
+          uses: 1,
+          expireTime: expiresAt,
+          newSessionExpireTime: new Date(Date.now() + LIVE_TOKEN_START_WINDOW_MS).toISOString(),
+          // Ephemeral tokens only exist in v1alpha
+          httpOptions: { apiVersion: 'v1alpha' },
+        },
+      });
+      if (!token.name) throw new Error('Token efêmero não retornado pelo Gemini.');
+      return { token: token.name, expiresAt };
+    },
+  };
+};
+
+/**
+ * Offline upstream for development and tests (`GEMINI_UPSTREAM=stub`): echoes the input,
+ * streams it word by word and awards a fixed amount so the whole client flow can be exercised without a key.
+ */
+export const createStubUpstream = (): GeminiUpstream => ({
+  chat: async (history, message) => ({
+    text: `[stub] ${message}`,
+    awards: [{ amount: 10, reason: 'Resposta simulada', category: 'TASK_EXECUTION' }],
+  }),
+
+  streamChat: async function* (history, message, signal) {
+    for (const word of `[stub] ${message}`.split(/(?<= )/)) {
+      if (signal.aborted) return;
+      yield { text: word, awards: [] };
+    }
+    yield { text: '', awards: [{ amount: 10, reason: 'Resposta simulada', category: 'TASK_EXECUTION' }] };
+  },
+
+  mentalMap: async (topic) => `${topic}\n├── [stub] Ramo 1\n└── [stub] Ramo 2`,
+
+  createLiveToken: async () => ({
+    token: 'stub-ephemeral-token',
+    expiresAt: new Date(Date.now() + LIVE_TOKEN_TTL_MS).toISOString(),
+  }),
+});
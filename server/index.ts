@@ -0,0 +1,74 @@
+import { createServer } from 'node:http';
+import path from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { FileStore } from './store';
+import { createTokenSigner } from './auth';
+import { PasswordResetDelivery, createRequestHandler } from './app';
+import { GeminiUpstream, createGeminiUpstream, createStubUpstream } from './gemini';
+
+const PORT = Number(process.env.PORT || 8787);
+const DATA_FILE = process.env.MENTOR_DATA_FILE || path.resolve(process.cwd(), 'server/data/db.json');
+const CORS_ORIGIN = process.env.CORS_ORIGIN || '*';
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY || process.env.API_KEY || '';
+const AI_REQUIRES_AUTH = process.env.AI_REQUIRES_AUTH !== 'false';
+
+const resolveGemini = (): GeminiUpstream | null => {
+  if (process.env.GEMINI_UPSTREAM === 'stub') {
+    console.warn('[Mentor Server] GEMINI_UPSTREAM=stub: respostas de IA simuladas.');
+    return createStubUpstream();
+  }
+  if (GEMINI_API_KEY) return createGeminiUpstream(GEMINI_API_KEY);
+  console.warn('[Mentor Server] GEMINI_API_KEY não definido: rotas /ai responderão 503.');
+  return null;
+};
+
+// No mail transport ships with the reference server. Tokens are POSTed to RESET_WEBHOOK_URL (a relay to
+// SMTP, a transactional e-mail API...), or logged with RESET_TOKEN_LOG=1 during development.
+const createWebhookDelivery = (url: string): PasswordResetDelivery => async (user, token) => {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email: user.email, name: user.name, token }),
+  });
+  if (!res.ok) throw new Error(`Webhook de redefinição respondeu ${res.status}.`);
+};
+
+const resolvePasswordReset = (): PasswordResetDelivery | null => {
+  if (process.env.RESET_WEBHOOK_URL) return createWebhookDelivery(process.env.RESET_WEBHOOK_URL);
+  if (process.env.RESET_TOKEN_LOG === '1') {
+    console.warn('[Mentor Server] RESET_TOKEN_LOG=1: códigos de redefinição serão exibidos no log. Use apenas em desenvolvimento.');
+    return async (user, token) => {
+      console.log(`[Mentor Server] Código de redefinição para ${user.email}: ${token}`);
+    };
+  }
+  console.warn('[Mentor Server] RESET_WEBHOOK_URL não definido: /auth/password/forgot responderá 503.');
+  return null;
+};
+
+const resolveSecret = () => {
+  if (process.env.TOKEN_SECRET) return process.env.TOKEN_SECRET;
+  console.warn('[Mentor Server] TOKEN_SECRET não definido: usando segredo temporário (sessões não sobrevivem a reinícios).');
+  return randomBytes(32).toString('hex');
+};
+
+const main = async () => {
+  const store = new FileStore(DATA_FILE);
+  await store.load();
+
+  const server = createServer(createRequestHandler({
+    store,
+    tokens: createTokenSigner(resolveSecret()),
+    corsOrigin: CORS_ORIGIN,
+    sendPasswordReset: resolvePasswordReset(),
+    gemini: resolveGemini(),
+    aiRequiresAuth: AI_REQUIRES_AUTH,
+  }));
+  server.listen(PORT, () => {
+    console.log(`[Mentor Server] Ouvindo em http://localhost:${PORT} (dados: ${DATA_FILE})`);
+  });
+};
+
+main().catch((e) => {
+  console.error('[Mentor Server] Falha ao iniciar:', e);
+  process.exit(1);
+});
@@ -0,0 +1,231 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+export interface StoredUser {
+  id: string;
+  name: string;
+  email: string;
+  createdAt: string;
+  credentials: { hash: string; salt: string; iterations: number };
+}
+
+export interface RefreshTokenRecord {
+  token: string;
+  userId: string;
+  expiresAt: number;
+}
+
+/** Only the SHA-256 of a reset token is stored, so a leaked database cannot be used to reset passwords. */
+export interface PasswordResetRecord {
+  tokenHash: string;
+  userId: string;
+  expiresAt: number;
+}
+
+export const USER_COLLECTIONS = ['sessions', 'maps', 'stats', 'ledger', 'focus'] as const;
+export type UserCollection = typeof USER_COLLECTIONS[number];
+
+/** One record of a user collection. Deleted records stay as tombstones so other devices learn about the deletion. */
+export interface SyncRecord {
+  id: string;
+  /** Value of the user's revision counter when the record last changed. */
+  rev: number;
+  data: unknown;
+  deleted: boolean;
+  updatedAt: string;
+}
+
+export interface RecordChange {
+  id: string;
+  /** Revision the client based its change on (0 for records it never saw). */
+  baseRev: number;
+  data?: unknown;
+  deleted?: boolean;
+}
+
+export type ChangeResult =
+  | { id: string; status: 'applied'; rev: number }
+  | { id: string; status: 'conflict'; record: SyncRecord }
+  | { id: string; status: 'rejected'; message: string };
+
+interface UserData {
+  rev: number;
+  collections: Partial<Record<UserCollection, Record<string, SyncRecord>>>;
+}
+
+interface Database {
+  users: StoredUser[];
+  refreshTokens: RefreshTokenRecord[];
+  passwordResets: PasswordResetRecord[];
+  userData: Record<string, UserData>;
+}
+
+const emptyDatabase = (): Database => ({ users: [], refreshTokens: [], passwordResets: [], userData: {} });
+
+/**
+ * JSON-file persistence. Every mutation rewrites the file; writes are serialized so
+ * concurrent requests never interleave. Pass `null` as the path for a purely in-memory store.
+ */
+export class FileStore {
+  private db: Database = emptyDatabase();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string | null) {}
+
+  async load(): Promise<void> {
+    if (!this.filePath) return;
+    try {
+      this.db = { ...emptyDatabase(), ...JSON.parse(await fs.readFile(this.filePath, 'utf8')) };
+    } catch (e: any) {
+      if (e.code !== 'ENOENT') throw e;
+    }
+    for (const [userId, data] of Object.entries(this.db.userData)) {
+      this.db.userData[userId] = upgradeUserData(data);
+    }
+  }
+
+  private persist(): Promise<void> {
+    if (!this.filePath) return Promise.resolve();
+    const filePath = this.filePath;
+    const snapshot = JSON.stringify(this.db, null, 2);
+    this.writeQueue = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(`${filePath}.tmp`, snapshot);
+      await fs.rename(`${filePath}.tmp`, filePath);
+    });
+    return this.writeQueue;
+  }
+
+  // --- Users ---
+
+  findUserByEmail(email: string): StoredUser | undefined {
+    return this.db.users.find(u => u.email === email);
+  }
+
+  findUserById(id: string): StoredUser | undefined {
+    return this.db.users.find(u => u.id === id);
+  }
+
+  async addUser(user: StoredUser): Promise<void> {
+    this.db.users.push(user);
+    await this.persist();
+  }
+
+  /** Removes the user and everything tied to it: sessions, pending resets and stored data. */
+  async deleteUser(userId: string): Promise<void> {
+    this.db.users = this.db.users.filter(u => u.id !== userId);
+    this.db.refreshTokens = this.db.refreshTokens.filter(t => t.userId !== userId);
+    this.db.passwordResets = this.db.passwordResets.filter(r => r.userId !== userId);
+    delete this.db.userData[userId];
+    await this.persist();
+  }
+
+  async updateCredentials(userId: string, credentials: StoredUser['credentials']): Promise<void> {
+    this.db.users = this.db.users.map(u => u.id === userId ? { ...u, credentials } : u);
+    await this.persist();
+  }
+
+  // --- Refresh tokens ---
+
+  findRefreshToken(token: string): RefreshTokenRecord | undefined {
+    return this.db.refreshTokens.find(t => t.token === token);
+  }
+
+  async saveRefreshToken(record: RefreshTokenRecord): Promise<void> {
+    // Drop expired tokens while we are here
+    const now = Date.now();
+    this.db.refreshTokens = this.db.refreshTokens.filter(t => t.expiresAt > now);
+    this.db.refreshTokens.push(record);
+    await this.persist();
+  }
+
+  async revokeRefreshToken(token: string): Promise<void> {
+    this.db.refreshTokens = this.db.refreshTokens.filter(t => t.token !== token);
+    await this.persist();
+  }
+
+  /** Ends every session of a user (password changed or reset). */
+  async revokeUserRefreshTokens(userId: string): Promise<void> {
+    this.db.refreshTokens = this.db.refreshTokens.filter(t => t.userId !== userId);
+    await this.persist();
+  }
+
+  // --- Password resets ---
+
+  async savePasswordReset(record: PasswordResetRecord): Promise<void> {
+    // A new request replaces any pending one for the same user
+    const now = Date.now();
+    this.db.passwordResets = this.db.passwordResets.filter(r => r.expiresAt > now && r.userId !== record.userId);
+    this.db.passwordResets.push(record);
+    await this.persist();
+  }
+
+  /** Removes and returns the reset record; tokens are single use. */
+  async consumePasswordReset(tokenHash: string): Promise<PasswordResetRecord | undefined> {
+    const record = this.db.passwordResets.find(r => r.tokenHash === tokenHash);
+    if (!record) return undefined;
+    this.db.passwordResets = this.db.passwordResets.filter(r => r !== record);
+    await this.persist();
+    return record;
+  }
+
+  // --- User data ---
+
+  private userData(userId: string): UserData {
+    return this.db.userData[userId] ??= { rev: 0, collections: {} };
+  }
+
+  getAllCollections(userId: string): Partial<Record<UserCollection, SyncRecord[]>> {
+    const collections = this.db.userData[userId]?.collections ?? {};
+    return Object.fromEntries(Object.entries(collections).map(([name, records]) => [name, Object.values(records)]));
+  }
+
+  getRecord(userId: string, collection: UserCollection, id: string): SyncRecord | undefined {
+    return this.db.userData[userId]?.collections[collection]?.[id];
+  }
+
+  /** Records changed after revision `since`, and the current revision to use as the next `since`. */
+  listChanges(userId: string, collection: UserCollection, since: number): { records: SyncRecord[]; rev: number } {
+    const data = this.db.userData[userId];
+    const records = Object.values(data?.collections[collection] ?? {}).filter(r => r.rev > since);
+    return { records: records.sort((a, b) => a.rev - b.rev), rev: data?.rev ?? 0 };
+  }
+
+  /**
+   * Applies each change whose baseRev matches the stored revision; the others come back as conflicts
+   * carrying the stored record, for the client to merge and resend.
+   */
+  async applyChanges(userId: string, collection: UserCollection, changes: RecordChange[]): Promise<ChangeResult[]> {
+    const data = this.userData(userId);
+    const records = data.collections[collection] ??= {};
+    const results = changes.map((change): ChangeResult => {
+      const current = records[change.id];
+      if (current && current.rev !== change.baseRev) return { id: change.id, status: 'conflict', record: current };
+
+      const deleted = change.deleted === true;
+      const rev = ++data.rev;
+      records[change.id] = { id: change.id, rev, data: deleted ? null : change.data, deleted, updatedAt: new Date().toISOString() };
+      return { id: change.id, status: 'applied', rev };
+    });
+    await this.persist();
+    return results;
+  }
+}
+
+// Files written before per-record sync held each collection as one value (an array of records, or the stats object)
+const upgradeUserData = (data: any): UserData => {
+  if (typeof data?.rev === 'number') return data;
+  const upgraded: UserData = { rev: 0, collections: {} };
+  for (const collection of USER_COLLECTIONS) {
+    const value = data?.[collection]?.data;
+    if (value == null) continue;
+    const entries: Array<[string, unknown]> = collection === 'stats'
+      ? [['current', value]]
+      : (Array.isArray(value) ? value : []).filter(item => typeof item?.id === 'string').map(item => [item.id, item]);
+    const updatedAt = data[collection].updatedAt ?? new Date().toISOString();
+    upgraded.collections[collection] = Object.fromEntries(entries.map(([id, item]) =>
+      [id, { id, rev: ++upgraded.rev, data: item, deleted: false, updatedAt }]
+    ));
+  }
+  return upgraded;
+};
@@ -0,0 +1,55 @@
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AppContext, createRequestHandler } from './app';
+import { createTokenSigner } from './auth';
+import { createStubUpstream } from './gemini';
+import { FileStore } from './store';
+
+export interface TestServer {
+  ctx: AppContext;
+  url: string;
+  /** JSON request; the body is parsed when there is one. */
+  request: (path: string, init?: { method?: string, body?: unknown, token?: string }) => Promise<{ status: number, body: any }>;
+  close: () => Promise<void>;
+}
+
+/**
+ * The reference server on a random local port, over an in-memory store and the stub Gemini upstream.
+ * Used by the tests of the routes and of the frontend services that talk to them.
+ */
+export const startTestServer = async (overrides: Partial<AppContext> = {}): Promise<TestServer> => {
+  const ctx: AppContext = {
+    store: new FileStore(null),
+    tokens: createTokenSigner('test-secret'),
+    corsOrigin: '*',
+    sendPasswordReset: async () => {},
+    gemini: createStubUpstream(),
+    aiRequiresAuth: true,
+    ...overrides,
+  };
+  const server = createServer(createRequestHandler(ctx));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    ctx,
+    url,
+    request: async (path, { method = 'GET', body, token } = {}) => {
+      const res = await fetch(`${url}${path}`, {
+        method,
+        headers: {
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+          ...(token && { Authorization: `Bearer ${token}` }),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const text = await res.text();
+      return { status: res.status, body: text ? JSON.parse(text) : undefined };
+    },
+    close: () => new Promise(resolve => {
+      // fetch keeps connections alive, which would hold close() open
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+};
@@ -0,0 +1,63 @@
+import { AccountArchive, UserProfile, UserStats } from "../types";
+import { apiFetch, authService } from "./authService";
+import { getStorage, readUserCollections } from "./storage";
+
+// Leftover `mentor_data_<userId>_*` keys (see migrateLegacyData), including any the migration did not know
+const legacyKeys = (userId: string): string[] => {
+  const prefix = `mentor_data_${userId}_`;
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(prefix)) keys.push(key);
+  }
+  return keys;
+};
+
+// Quarantined records (see loadUserData) are exported too: they are still the user's data
+const readUserData = async (userId: string): Promise<AccountArchive['data']> => {
+  const storage = await getStorage();
+  const [{ sessions, maps, stats, ledger, focus }, quarantine] = await Promise.all([
+    readUserCollections(storage, userId),
+    storage.list(userId, 'quarantine'),
+  ]);
+  return { sessions, maps, ledger, focus, ...(stats && { stats: stats as UserStats }), ...(quarantine.length > 0 && { quarantine }) };
+};
+
+const fetchServerCopy = async (): Promise<unknown> => {
+  const res = await apiFetch('/account/export');
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.message || 'Falha ao exportar os dados do servidor.');
+  }
+  return res.json();
+};
+
+/**
+ * Collects the profile and every stored record of the user into one archive.
+ * Remote accounts also include the backend's copy.
+ */
+export const exportAccount = async (user: UserProfile): Promise<AccountArchive> => {
+  const source = authService.getAuthSource() ?? 'local';
+  return {
+    format: 'mentor-export',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    profile: user,
+    source,
+    data: await readUserData(user.id),
+    ...(source === 'remote' && { server: await fetchServerCopy() }),
+  };
+};
+
+export const archiveFileName = (archive: AccountArchive) =>
+  `mentor-${archive.profile.email.replace(/[^a-z0-9]+/gi, '-')}-${archive.exportedAt.slice(0, 10)}.json`;
+
+/**
+ * Deletes the account (backend and/or local credentials, see authService.deleteAccount)
+ * and then every record of the user on this device.
+ */
+export const deleteAccount = async (password: string): Promise<void> => {
+  const userId = await authService.deleteAccount(password);
+  await (await getStorage()).clear(userId);
+  legacyKeys(userId).forEach(key => localStorage.removeItem(key));
+};
@@ -0,0 +1,102 @@
+import { Achievement, ChatSession, LedgerEntry, MentalMapItem, UserStats } from "../types";
+import { MAX_POINTS } from "../constants";
+import { isActiveEntry } from "./ledgerService";
+
+export interface AchievementContext {
+  stats: UserStats;
+  ledger: LedgerEntry[];
+  sessions: ChatSession[];
+  mentalMaps: MentalMapItem[];
+}
+
+export interface AchievementRule {
+  id: string;
+  title: string;
+  description: string;
+  icon: string; // lucide-react icon name, resolved by the gallery
+  emblemPoints: number; // Emblem stage shown in the gallery
+  isUnlocked: (ctx: AchievementContext) => boolean;
+}
+
+const activeEntries = (ledger: LedgerEntry[]) => ledger.filter(isActiveEntry);
+
+// A penalty counts as recovered once later gains cover it
+const hasRecoveredPenalty = (ledger: LedgerEntry[]) => {
+  const entries = activeEntries(ledger).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  return entries.some((penalty, index) => {
+    if (penalty.amount >= 0) return false;
+    const regained = entries.slice(index + 1).reduce((sum, e) => sum + Math.max(0, e.amount), 0);
+    return regained >= Math.abs(penalty.amount);
+  });
+};
+
+export const ACHIEVEMENT_CATALOG: AchievementRule[] = [
+  {
+    id: 'first-award',
+    title: 'Primeiro Crédito',
+    description: 'Receba sua primeira premiação do Mentor.',
+    icon: 'Zap',
+    emblemPoints: 0,
+    isUnlocked: ({ ledger }) => activeEntries(ledger).some(e => e.source === 'chat' && e.amount > 0),
+  },
+  {
+    id: 'first-focus-cycle',
+    title: 'Primeiro Ciclo',
+    description: 'Conclua e confirme seu primeiro ciclo de foco.',
+    icon: 'Timer',
+    emblemPoints: 500,
+    isUnlocked: ({ ledger }) => activeEntries(ledger).some(e => e.source === 'timer' && e.amount > 0),
+  },
+  {
+    id: 'first-voice-session',
+    title: 'Comando de Voz',
+    description: 'Inicie sua primeira sessão de voz ao vivo.',
+    icon: 'Mic',
+    emblemPoints: 500,
+    isUnlocked: ({ stats }) => stats.voiceSessions > 0,
+  },
+  {
+    id: 'streak-7',
+    title: 'Semana Blindada',
+    description: 'Mantenha uma sequência de 7 dias executados.',
+    icon: 'Flame',
+    emblemPoints: 2500,
+    isUnlocked: ({ stats }) => stats.bestStreak >= 7,
+  },
+  {
+    id: 'maps-10',
+    title: 'Arquiteto',
+    description: 'Gere 10 mapas mentais.',
+    icon: 'Network',
+    emblemPoints: 2500,
+    isUnlocked: ({ mentalMaps }) => mentalMaps.length >= 10,
+  },
+  {
+    id: 'penalty-recovered',
+    title: 'Regra das 2 Falhas',
+    description: 'Recupere todos os pontos perdidos em uma penalidade.',
+    icon: 'TrendingUp',
+    emblemPoints: 5000,
+    isUnlocked: ({ ledger }) => hasRecoveredPenalty(ledger),
+  },
+  {
+    id: 'legend',
+    title: 'Lenda',
+    description: `Alcance ${MAX_POINTS} pontos em um ciclo.`,
+    icon: 'Crown',
+    emblemPoints: MAX_POINTS,
+    isUnlocked: ({ stats }) => stats.points >= MAX_POINTS || stats.prestige > 0,
+  },
+];
+
+/** Rules that are satisfied now but not yet recorded in the stats. */
+export const findNewAchievements = (ctx: AchievementContext, now: Date = new Date()): Achievement[] => {
+  const unlockedIds = new Set(ctx.stats.achievements.map(a => a.id));
+  return ACHIEVEMENT_CATALOG
+    .filter(rule => !unlockedIds.has(rule.id) && rule.isUnlocked(ctx))
+    .map(({ id, title, description, icon }) => ({ id, title, description, icon, unlockedAt: now }));
+};
+
+export const hydrateAchievements = (achievements: Achievement[]): Achievement[] => {
+  return achievements.map(a => ({ ...a, unlockedAt: new Date(a.unlockedAt) }));
+};
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TestServer, startTestServer } from '../server/testServer';
+import { AuthService, SessionExpiredError, createAuthService } from './authService';
+import { KeyValueStore, createMemoryKeyValueStore } from './keyValueStore';
+
+const SESSION_KEY = 'MENTOR_AUTH_SESSION_TOKEN';
+
+let server: TestServer;
+let storage: KeyValueStore;
+let auth: AuthService;
+
+const editSession = (update: (session: any) => object) => {
+  const session = JSON.parse(storage.getItem(SESSION_KEY)!);
+  storage.setItem(SESSION_KEY, JSON.stringify({ ...session, ...update(session) }));
+};
+
+const pushChanges = async (collection: string, changes: object[]) => {
+  const res = await auth.apiFetch(`/data/${collection}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ changes }),
+  });
+  expect(res.status).toBe(200);
+  return (await res.json()).results;
+};
+
+const pullChanges = async (collection: string, since = 0) => (await auth.apiFetch(`/data/${collection}?since=${since}`)).json();
+
+beforeEach(async () => {
+  server = await startTestServer();
+  storage = createMemoryKeyValueStore();
+  auth = createAuthService({ storage, apiUrl: server.url, mode: 'remote' });
+});
+
+afterEach(() => server.close());
+
+describe('authService against the reference server', () => {
+  it('registers and logs in remote accounts', async () => {
+    const registered = await auth.register('Ana', 'Ana@Example.com', 'segredo123');
+    expect(registered.source).toBe('remote');
+    expect(registered.recoveryCode).toBeUndefined();
+    expect(server.ctx.store.findUserByEmail('ana@example.com')?.id).toBe(registered.user.id);
+    expect(auth.getAuthSource()).toBe('remote');
+
+    await auth.logout();
+    expect(await auth.getCurrentUser()).toBeNull();
+
+    const login = await auth.login('ana@example.com', 'segredo123');
+    expect(login.user).toEqual(registered.user);
+    expect(await auth.getCurrentUser()).toEqual(registered.user);
+  });
+
+  it('surfaces the backend rejections', async () => {
+    await auth.register('Ana', 'ana@example.com', 'segredo123');
+    await expect(auth.register('Ana', 'ana@example.com', 'segredo123')).rejects.toThrow('Este e-mail já está registrado no sistema.');
+    await expect(auth.login('ana@example.com', 'errada123')).rejects.toThrow('Credenciais inválidas.');
+  });
+
+  it('refreshes a session close to expiry', async () => {
+    const { token } = await auth.register('Ana', 'ana@example.com', 'segredo123');
+    const { refreshToken } = JSON.parse(storage.getItem(SESSION_KEY)!);
+    editSession(() => ({ expiresAt: Date.now() }));
+
+    expect(await auth.getCurrentUser()).toMatchObject({ email: 'ana@example.com' });
+    const refreshed = JSON.parse(storage.getItem(SESSION_KEY)!);
+    expect(refreshed.expiresAt).toBeGreaterThan(Date.now());
+    expect(refreshed.refreshToken).not.toBe(refreshToken);
+    expect(server.ctx.store.findRefreshToken(refreshToken)).toBeUndefined();
+    expect(server.ctx.tokens.verify(refreshed.token)?.sub).toBe(server.ctx.tokens.verify(token)?.sub);
+  });
+
+  it('ends the session when the refresh token is no longer accepted', async () => {
+    await auth.register('Ana', 'ana@example.com', 'segredo123');
+    editSession(() => ({ expiresAt: Date.now(), refreshToken: 'revogado' }));
+
+    await expect(auth.getCurrentUser()).rejects.toBeInstanceOf(SessionExpiredError);
+    expect(storage.getItem(SESSION_KEY)).toBeNull();
+  });
+
+  it('retries once with a refreshed token when the backend answers 401', async () => {
+    await auth.register('Ana', 'ana@example.com', 'segredo123');
+    editSession(() => ({ token: 'invalido' }));
+
+    const res = await auth.apiFetch('/data/sessions');
+    expect(res.status).toBe(200);
+    expect(JSON.parse(storage.getItem(SESSION_KEY)!).token).not.toBe('invalido');
+  });
+
+  it('deletes the remote account along with its local copy', async () => {
+    // An account created while the backend was unreachable
+    const local = createAuthService({ storage, apiUrl: '', mode: 'local' });
+    await local.register('Ana', 'ana@example.com', 'segredo123');
+    await local.logout();
+
+    const fallback = createAuthService({ storage, apiUrl: server.url, mode: 'remote-with-fallback' });
+    const { user } = await fallback.register('Ana', 'Ana@Example.com', 'segredo123');
+    expect(await fallback.deleteAccount('segredo123')).toBe(user.id);
+
+    expect(server.ctx.store.findUserByEmail('ana@example.com')).toBeUndefined();
+    await expect(local.login('ana@example.com', 'segredo123')).rejects.toThrow();
+  });
+});
+
+describe('/data sync through apiFetch', () => {
+  beforeEach(async () => {
+    await auth.register('Ana', 'ana@example.com', 'segredo123');
+  });
+
+  it('pushes records and pulls them back from a revision on', async () => {
+    const results = await pushChanges('sessions', [{ id: 's1', baseRev: 0, data: { id: 's1', title: 'Um' } }]);
+    expect(results).toEqual([{ id: 's1', status: 'applied', rev: 1 }]);
+
+    await pushChanges('sessions', [{ id: 's1', baseRev: 1, data: { id: 's1', title: 'Um, revisado' } }]);
+    const { records, rev } = await pullChanges('sessions', 1);
+    expect(rev).toBe(2);
+    expect(records).toEqual([expect.objectContaining({ id: 's1', rev: 2, data: { id: 's1', title: 'Um, revisado' } })]);
+  });
+
+  it('gets a conflict back for a change based on an old revision', async () => {
+    await pushChanges('stats', [{ id: 'current', baseRev: 0, data: { totalPoints: 10 } }]);
+    await pushChanges('stats', [{ id: 'current', baseRev: 1, data: { totalPoints: 30 } }]);
+
+    const [result] = await pushChanges('stats', [{ id: 'current', baseRev: 1, data: { totalPoints: 20 } }]);
+    expect(result).toMatchObject({ status: 'conflict', record: { rev: 2, data: { totalPoints: 30 } } });
+
+    // The merged copy is accepted once it is based on the revision the conflict reported
+    const [retry] = await pushChanges('stats', [{ id: 'current', baseRev: result.record.rev, data: { totalPoints: 40 } }]);
+    expect(retry).toEqual({ id: 'current', status: 'applied', rev: 3 });
+  });
+
+  it('keeps the ledger append-only', async () => {
+    const entry = { id: 'e1', amount: 10, reason: 'Entrega', category: 'TASK_EXECUTION', timestamp: '2026-01-01T10:00:00.000Z' };
+    await pushChanges('ledger', [{ id: 'e1', baseRev: 0, data: entry }]);
+
+    const results = await pushChanges('ledger', [
+      { id: 'e1', baseRev: 1, deleted: true },
+      { id: 'e2', baseRev: 0, data: { ...entry, id: 'e2' } },
+    ]);
+    expect(results).toEqual([
+      { id: 'e2', status: 'applied', rev: 2 },
+      { id: 'e1', status: 'rejected', message: 'O extrato não aceita exclusões.' },
+    ]);
+    expect((await pullChanges('ledger')).records.map((r: any) => r.id)).toEqual(['e1', 'e2']);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { createAuthService } from './authService';
+import { KeyValueStore, createMemoryKeyValueStore } from './keyValueStore';
+import { timingSafeEqual, verifyPassword } from './passwordService';
+
+const DB_USERS_KEY = 'MENTOR_AUTH_USERS_DB';
+
+const readUsers = (storage: KeyValueStore) => JSON.parse(storage.getItem(DB_USERS_KEY) || '[]');
+
+const createLocalAuth = (initial?: Record<string, string>) => {
+  const storage = createMemoryKeyValueStore(initial);
+  return { storage, auth: createAuthService({ storage, mode: 'local' }) };
+};
+
+// Local calls wait 800ms on purpose and each hash runs 210k PBKDF2 iterations
+describe('local accounts', { timeout: 30000 }, () => {
+  it('stores a salted hash instead of the password on register', async () => {
+    const { storage, auth } = createLocalAuth();
+    const { user, source, recoveryCode } = await auth.register(' Ana ', 'Ana@Example.com', 'segredo123');
+
+    expect(source).toBe('local');
+    expect(user).toMatchObject({ name: 'Ana', email: 'ana@example.com' });
+    expect(recoveryCode).toMatch(/^[A-Z2-9]{4}(-[A-Z2-9]{4}){3}$/);
+
+    const [stored] = readUsers(storage);
+    expect(stored.password).toBeUndefined();
+    expect(JSON.stringify(stored)).not.toContain('segredo123');
+    expect(stored.credentials.salt).toBeTruthy();
+    expect(await verifyPassword('segredo123', stored.credentials)).toBe(true);
+    expect(await auth.getCurrentUser()).toEqual(user);
+  });
+
+  it('refuses passwords shorter than the backend accepts', async () => {
+    const { storage, auth } = createLocalAuth();
+    await expect(auth.register('Ana', 'ana@example.com', '12345')).rejects.toThrow('A senha deve ter ao menos 6 caracteres.');
+    expect(readUsers(storage)).toEqual([]);
+  });
+
+  it('salts each account separately', async () => {
+    const { storage, auth } = createLocalAuth();
+    await auth.register('Ana', 'ana@example.com', 'segredo123');
+    await auth.register('Bia', 'bia@example.com', 'segredo123');
+
+    const [ana, bia] = readUsers(storage);
+    expect(ana.credentials.salt).not.toBe(bia.credentials.salt);
+    expect(ana.credentials.hash).not.toBe(bia.credentials.hash);
+  });
+
+  it('logs in with the right password only', async () => {
+    const { auth } = createLocalAuth();
+    const { user } = await auth.register('Ana', 'ana@example.com', 'segredo123');
+    await auth.logout();
+
+    const failure = 'Credenciais inválidas ou usuário não encontrado neste dispositivo.';
+    await expect(auth.login('ana@example.com', 'segredo12')).rejects.toThrow(failure);
+    await expect(auth.login('ana@example.com', 'segredo1234')).rejects.toThrow(failure);
+    await expect(auth.login('bia@example.com', 'segredo123')).rejects.toThrow(failure);
+    expect(await auth.getCurrentUser()).toBeNull();
+
+    const session = await auth.login(' ANA@example.com ', 'segredo123');
+    expect(session.user).toEqual(user);
+  });
+
+  it('migrates a plaintext record on the first successful login, once', async () => {
+    const legacy = { id: 'u1', name: 'Ana', email: 'ana@example.com', createdAt: '2024-01-01T00:00:00.000Z', password: 'segredo123' };
+    const { storage, auth } = createLocalAuth({ [DB_USERS_KEY]: JSON.stringify([legacy]) });
+
+    await expect(auth.login('ana@example.com', 'errada123')).rejects.toThrow();
+    expect(readUsers(storage)).toEqual([legacy]);
+
+    const { user } = await auth.login('ana@example.com', 'segredo123');
+    expect(user).toEqual({ id: 'u1', name: 'Ana', email: 'ana@example.com', createdAt: '2024-01-01T00:00:00.000Z' });
+
+    const [migrated] = readUsers(storage);
+    expect(migrated.password).toBeUndefined();
+    expect(await verifyPassword('segredo123', migrated.credentials)).toBe(true);
+
+    // Later logins go through the hash and leave the record alone
+    await auth.login('ana@example.com', 'segredo123');
+    expect(readUsers(storage)).toEqual([migrated]);
+    await expect(auth.login('ana@example.com', 'errada123')).rejects.toThrow();
+  });
+
+  it('keeps accounts and sessions inside the injected store', async () => {
+    const first = createLocalAuth();
+    const second = createLocalAuth();
+    await first.auth.register('Ana', 'ana@example.com', 'segredo123');
+
+    expect(await second.auth.getCurrentUser()).toBeNull();
+    await expect(second.auth.login('ana@example.com', 'segredo123')).rejects.toThrow();
+  });
+});
+
+describe('timingSafeEqual', () => {
+  const bytes = (text: string) => new TextEncoder().encode(text);
+
+  it('compares whole buffers', () => {
+    expect(timingSafeEqual(bytes('segredo123'), bytes('segredo123'))).toBe(true);
+    expect(timingSafeEqual(bytes('segredo123'), bytes('xegredo123'))).toBe(false);
+    expect(timingSafeEqual(bytes('segredo123'), bytes('segredo12x'))).toBe(false);
+  });
+
+  it('rejects prefixes and longer inputs', () => {
+    expect(timingSafeEqual(bytes('segredo'), bytes('segredo123'))).toBe(false);
+    expect(timingSafeEqual(bytes('segredo123'), bytes('segredo'))).toBe(false);
+    expect(timingSafeEqual(bytes(''), bytes('a'))).toBe(false);
+  });
+});
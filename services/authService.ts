@@ -1,12 +1,23 @@
 import { UserProfile } from "../types";
+import { PasswordHash, generateRecoveryCode, hashPassword, normalizeRecoveryCode, verifyPassword, verifyPlaintext } from "./passwordService";
+import { KeyValueStore, browserStorage } from "./keyValueStore";
+import { signLocalToken, verifyLocalToken } from "./tokenService";
 
-// Keys for LocalStorage
+// Keys in the auth KeyValueStore (localStorage by default)
 const DB_USERS_KEY = "MENTOR_AUTH_USERS_DB";
 const SESSION_KEY = "MENTOR_AUTH_SESSION_TOKEN";
 
+const LOCAL_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const REMOTE_SESSION_TTL_MS = 60 * 60 * 1000; // Used when the backend does not send expiresIn
+const REFRESH_MARGIN_MS = 60 * 1000; // Refresh remote tokens slightly before they expire
+
 // Helper to simulate async API delays
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
+const assertPasswordLength = (password: string) => {
+  if (password.length < 6) throw new Error("A senha deve ter ao menos 6 caracteres.");
+};
+
 const generateId = () => {
   if (typeof crypto !== 'undefined' && crypto.randomUUID) {
     return crypto.randomUUID();
@@ -14,138 +25,478 @@ const generateId = () => {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 };
 
-interface AuthResponse {
+export interface AuthResponse {
+  user: UserProfile;
+  token: string;
+  expiresAt: number;
+  source: 'local' | 'remote';
+  recoveryCode?: string; // Local accounts only: new recovery code to show the user once
+}
+
+interface StoredSession {
   user: UserProfile;
   token: string;
+  refreshToken?: string;
+  issuedAt: number;
+  expiresAt: number;
+  source: 'local' | 'remote';
 }
 
+// Backend contract for /auth/login, /auth/register and /auth/refresh
+interface RemoteAuthPayload {
+  user: UserProfile;
+  token: string;
+  refreshToken?: string;
+  expiresIn?: number; // Seconds
+}
+
+export class SessionExpiredError extends Error {
+  constructor() {
+    super("Sua sessão expirou. Acesse novamente.");
+    this.name = 'SessionExpiredError';
+  }
+}
+
+// Record shape in DB_USERS_KEY. `password` only exists on records created before hashing;
+// `recovery` (hash of the recovery code) is missing on accounts created before recovery codes.
+interface StoredUser extends UserProfile {
+  credentials?: PasswordHash;
+  password?: string;
+  recovery?: PasswordHash;
+}
+
+const toProfile = (user: StoredUser): UserProfile => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  createdAt: user.createdAt,
+});
+
 // NOTE: Since this is a client-side only deployment in this context (Vite), 
 // we default to LocalStorage. If a real backend URL is provided via ENV, we use that.
 const API_URL = process.env.VITE_API_URL || ''; 
 
-export const authService = {
-  /**
-   * Registers a new user.
-   */
-  register: async (name: string, email: string, password: string): Promise<AuthResponse> => {
-    // If API URL is configured, try to hit the backend
-    if (API_URL) {
-        try {
-            const res = await fetch(`${API_URL}/auth/register`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ name, email, password })
-            });
-            if (!res.ok) {
-                const err = await res.json();
-                throw new Error(err.message || 'Falha no registro remoto.');
-            }
-            const data = await res.json();
-            localStorage.setItem(SESSION_KEY, JSON.stringify(data.user));
-            return data;
-        } catch (e) {
-            console.warn("Backend unavailable, falling back to local storage.", e);
-        }
-    }
+// - 'remote': backend only, errors are surfaced as-is.
+// - 'local': this device's store only, the backend URL is ignored for auth.
+// - 'remote-with-fallback': backend first; the local store is used only when the backend is unreachable.
+export type AuthMode = 'remote' | 'local' | 'remote-with-fallback';
+export type AuthSource = StoredSession['source'];
 
-    // Local Fallback
-    await delay(800); 
-    const usersStr = localStorage.getItem(DB_USERS_KEY);
-    const users: any[] = usersStr ? JSON.parse(usersStr) : [];
-    const normalizedEmail = email.toLowerCase().trim();
+const resolveAuthMode = (apiUrl: string): AuthMode => {
+  const configured = process.env.VITE_AUTH_MODE as AuthMode | undefined;
+  if (configured === 'remote' || configured === 'local' || configured === 'remote-with-fallback') return configured;
+  return apiUrl ? 'remote-with-fallback' : 'local';
+};
 
-    if (users.find((u) => u.email === normalizedEmail)) {
-      throw new Error("Este e-mail já está registrado no sistema (Local).");
-    }
+export const AUTH_MODE = resolveAuthMode(API_URL);
 
-    const newUser = {
-      id: generateId(),
-      name: name.trim(),
-      email: normalizedEmail,
-      password: password, 
-      createdAt: new Date().toISOString(),
-    };
+/** The backend could not be reached (network error or 5xx). Only this error may trigger the local fallback. */
+export class BackendUnavailableError extends Error {
+  constructor(cause?: unknown) {
+    super("Servidor de autenticação indisponível. Tente novamente em instantes.");
+    this.name = 'BackendUnavailableError';
+    if (cause) console.warn("Backend unavailable:", cause);
+  }
+}
 
-    users.push(newUser);
-    localStorage.setItem(DB_USERS_KEY, JSON.stringify(users));
+export interface AuthServiceOptions {
+  /** Where local accounts, the session and the local signing key are kept. Defaults to localStorage. */
+  storage?: KeyValueStore;
+  /** Backend base URL. Defaults to VITE_API_URL. */
+  apiUrl?: string;
+  /** Defaults to VITE_AUTH_MODE, or to what apiUrl implies. */
+  mode?: AuthMode;
+}
 
-    const userProfile: UserProfile = {
-      id: newUser.id,
-      name: newUser.name,
-      email: newUser.email,
-      createdAt: newUser.createdAt,
-    };
+/**
+ * Auth bound to one store and backend. The app uses the `authService` instance below;
+ * tests create their own over createMemoryKeyValueStore() or a test server.
+ */
+export const createAuthService = ({ storage = browserStorage, apiUrl = API_URL, mode = resolveAuthMode(apiUrl) }: AuthServiceOptions = {}) => {
+  const readUsers = (): StoredUser[] => {
+    const usersStr = storage.getItem(DB_USERS_KEY);
+    return usersStr ? JSON.parse(usersStr) : [];
+  };
 
-    localStorage.setItem(SESSION_KEY, JSON.stringify(userProfile));
-    return { user: userProfile, token: "mock-jwt-token" };
-  },
+  const writeUsers = (users: StoredUser[]) => {
+    storage.setItem(DB_USERS_KEY, JSON.stringify(users));
+  };
 
   /**
-   * Authenticates an existing user.
+   * Checks a password against a stored record.
+   * Legacy plaintext records are upgraded to a hash on the first successful login.
    */
-  login: async (email: string, password: string): Promise<AuthResponse> => {
-    if (API_URL) {
-        try {
-            const res = await fetch(`${API_URL}/auth/login`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ email, password })
-            });
-            if (!res.ok) {
-                const err = await res.json();
-                throw new Error(err.message || 'Credenciais inválidas.');
-            }
-            const data = await res.json();
-            localStorage.setItem(SESSION_KEY, JSON.stringify(data.user));
-            return data;
-        } catch (e) {
-            console.warn("Backend unavailable, falling back to local storage.", e);
-        }
+  const checkCredentials = async (users: StoredUser[], user: StoredUser, password: string): Promise<boolean> => {
+    if (user.credentials) return verifyPassword(password, user.credentials);
+    if (user.password === undefined || !verifyPlaintext(password, user.password)) return false;
+
+    const { password: _plaintext, ...rest } = user;
+    const migrated: StoredUser = { ...rest, credentials: await hashPassword(password) };
+    writeUsers(users.map(u => u.id === user.id ? migrated : u));
+    return true;
+  };
+
+  /** Replaces the password of a local record (dropping any legacy plaintext) and optionally its recovery code. */
+  const setLocalPassword = async (userId: string, password: string, recoveryCode?: string) => {
+    const credentials = await hashPassword(password);
+    const recovery = recoveryCode ? await hashPassword(recoveryCode) : undefined;
+    writeUsers(readUsers().map(user => {
+      if (user.id !== userId) return user;
+      const { password: _plaintext, ...rest } = user;
+      return { ...rest, credentials, recovery: recovery ?? rest.recovery };
+    }));
+  };
+
+  /**
+   * POSTs credentials to the backend.
+   * 4xx responses are rejections and throw a plain Error with the backend message.
+   */
+  const postAuth = async <T = RemoteAuthPayload>(path: string, body: object, fallbackMessage: string): Promise<T> => {
+    if (!apiUrl) {
+      throw new Error("ERRO DE CONFIGURAÇÃO: Modo de autenticação remoto sem VITE_API_URL.");
+    }
+
+    let res: Response;
+    try {
+      res = await fetch(`${apiUrl}${path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body)
+      });
+    } catch (e) {
+      throw new BackendUnavailableError(e);
     }
 
-    await delay(800);
-    const usersStr = localStorage.getItem(DB_USERS_KEY);
-    const users: any[] = usersStr ? JSON.parse(usersStr) : [];
-    const normalizedEmail = email.toLowerCase().trim();
-    
-    // Strict comparison
-    const user = users.find((u) => u.email === normalizedEmail && u.password === password);
+    if (res.status >= 500) throw new BackendUnavailableError(res.status);
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      throw new Error(err.message || fallbackMessage);
+    }
+    return res.json();
+  };
 
-    if (!user) {
-      throw new Error("Credenciais inválidas ou usuário não encontrado neste dispositivo.");
+  /** Runs the remote call according to mode; resolves null when the caller should use the local store. */
+  const tryRemote = async (call: () => Promise<RemoteAuthPayload>): Promise<AuthResponse | null> => {
+    if (mode === 'local') return null;
+    try {
+      return startRemoteSession(await call());
+    } catch (e) {
+      if (mode === 'remote-with-fallback' && e instanceof BackendUnavailableError) {
+        console.warn("Falling back to local storage.");
+        return null;
+      }
+      throw e;
     }
+  };
 
-    const userProfile: UserProfile = {
-      id: user.id,
-      name: user.name,
-      email: user.email,
-      createdAt: user.createdAt,
-    };
 
-    localStorage.setItem(SESSION_KEY, JSON.stringify(userProfile));
-    return { user: userProfile, token: "mock-jwt-token" };
-  },
+  // --- SESSION HANDLING ---
 
-  /**
-   * Checks for active session.
-   */
-  getCurrentUser: async (): Promise<UserProfile | null> => {
-    const sessionStr = localStorage.getItem(SESSION_KEY);
+  const readSession = (): StoredSession | null => {
+    const sessionStr = storage.getItem(SESSION_KEY);
     if (!sessionStr) return null;
 
     try {
-      return JSON.parse(sessionStr) as UserProfile;
+      const session = JSON.parse(sessionStr);
+      // Sessions from before tokens were a bare profile and are no longer trusted
+      if (!session?.token || !session?.expiresAt) throw new Error("Legacy session");
+      return session as StoredSession;
+    } catch (e) {
+      storage.removeItem(SESSION_KEY);
+      return null;
+    }
+  };
+
+  const writeSession = (session: StoredSession): AuthResponse => {
+    storage.setItem(SESSION_KEY, JSON.stringify(session));
+    return { user: session.user, token: session.token, expiresAt: session.expiresAt, source: session.source };
+  };
+
+  const startLocalSession = async (user: UserProfile): Promise<AuthResponse> => {
+    const { token, payload } = await signLocalToken(user.id, LOCAL_SESSION_TTL_MS, storage);
+    return writeSession({ user, token, issuedAt: payload.iat, expiresAt: payload.exp, source: 'local' });
+  };
+
+  const startRemoteSession = (data: RemoteAuthPayload): AuthResponse => {
+    const now = Date.now();
+    return writeSession({
+      user: data.user,
+      token: data.token,
+      refreshToken: data.refreshToken,
+      issuedAt: now,
+      expiresAt: now + (data.expiresIn ? data.expiresIn * 1000 : REMOTE_SESSION_TTL_MS),
+      source: 'remote',
+    });
+  };
+
+  const refreshRemoteSession = async (session: StoredSession): Promise<StoredSession | null> => {
+    if (!session.refreshToken) return null;
+    try {
+      const res = await fetch(`${apiUrl}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken: session.refreshToken })
+      });
+      if (!res.ok) return null;
+      startRemoteSession(await res.json());
+      return readSession();
     } catch (e) {
-      localStorage.removeItem(SESSION_KEY);
+      console.warn("Token refresh failed.", e);
       return null;
     }
-  },
+  };
 
   /**
-   * Logs out.
+   * Returns a usable session, refreshing remote tokens close to expiry.
+   * Throws SessionExpiredError when a session existed but can no longer be used.
    */
-  logout: async (): Promise<void> => {
-    localStorage.removeItem(SESSION_KEY);
-    await delay(200);
-  },
+  const resolveSession = async (): Promise<StoredSession | null> => {
+    const session = readSession();
+    if (!session) return null;
+
+    if (session.source === 'local') {
+      const payload = await verifyLocalToken(session.token, storage);
+      if (!payload || payload.sub !== session.user.id) {
+        storage.removeItem(SESSION_KEY);
+        return null;
+      }
+      if (payload.exp <= Date.now()) {
+        storage.removeItem(SESSION_KEY);
+        throw new SessionExpiredError();
+      }
+      return session;
+    }
+
+    if (session.expiresAt - REFRESH_MARGIN_MS > Date.now()) return session;
+
+    const refreshed = await refreshRemoteSession(session);
+    if (refreshed) return refreshed;
+
+    storage.removeItem(SESSION_KEY);
+    throw new SessionExpiredError();
+  };
+
+  /**
+   * fetch() against apiUrl with the current session token attached.
+   * A 401 triggers one refresh-and-retry; if that fails the session is ended.
+   */
+  const apiFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+    const send = (session: StoredSession | null) => {
+      const headers = new Headers(init.headers);
+      if (session) headers.set('Authorization', `Bearer ${session.token}`);
+      return fetch(`${apiUrl}${path}`, { ...init, headers });
+    };
+
+    const session = await resolveSession();
+    const res = await send(session);
+    if (res.status !== 401 || session?.source !== 'remote') return res;
+
+    const refreshed = await refreshRemoteSession(session);
+    if (!refreshed) {
+      storage.removeItem(SESSION_KEY);
+      throw new SessionExpiredError();
+    }
+    return send(refreshed);
+  };
+
+  return {
+    /**
+     * Registers a new user.
+     */
+    register: async (name: string, email: string, password: string): Promise<AuthResponse> => {
+      const remote = await tryRemote(() => postAuth('/auth/register', { name, email, password }, 'Falha no registro remoto.'));
+      if (remote) return remote;
+
+      // Local Fallback: same rule as the backend and the password change/reset flows
+      assertPasswordLength(password);
+      await delay(800); 
+      const users = readUsers();
+      const normalizedEmail = email.toLowerCase().trim();
+
+      if (users.find((u) => u.email === normalizedEmail)) {
+        throw new Error("Este e-mail já está registrado no sistema (Local).");
+      }
+
+      const recoveryCode = generateRecoveryCode();
+      const newUser: StoredUser = {
+        id: generateId(),
+        name: name.trim(),
+        email: normalizedEmail,
+        credentials: await hashPassword(password),
+        recovery: await hashPassword(recoveryCode),
+        createdAt: new Date().toISOString(),
+      };
+
+      users.push(newUser);
+      writeUsers(users);
+
+      return { ...(await startLocalSession(toProfile(newUser))), recoveryCode };
+    },
+
+    /**
+     * Authenticates an existing user.
+     */
+    login: async (email: string, password: string): Promise<AuthResponse> => {
+      const remote = await tryRemote(() => postAuth('/auth/login', { email, password }, 'Credenciais inválidas.'));
+      if (remote) return remote;
+
+      await delay(800);
+      const users = readUsers();
+      const normalizedEmail = email.toLowerCase().trim();
+
+      const user = users.find((u) => u.email === normalizedEmail);
+
+      if (!user || !(await checkCredentials(users, user, password))) {
+        throw new Error("Credenciais inválidas ou usuário não encontrado neste dispositivo.");
+      }
+
+      return startLocalSession(toProfile(user));
+    },
+
+    /**
+     * How a forgotten password is recovered: a token sent by the backend, or the recovery code of a local account.
+     * In 'remote-with-fallback' both exist, since accounts may have been created offline.
+     */
+    getResetMethods: (): Array<'token' | 'recovery-code'> => {
+      if (mode === 'local') return ['recovery-code'];
+      if (mode === 'remote') return ['token'];
+      return ['token', 'recovery-code'];
+    },
+
+    /**
+     * Asks the backend to deliver a reset token. Resolves with the backend message.
+     */
+    requestPasswordReset: async (email: string): Promise<string> => {
+      const { message } = await postAuth<{ message: string }>('/auth/password/forgot', { email }, 'Falha ao solicitar a redefinição.');
+      return message;
+    },
+
+    /**
+     * Sets a new password with a token obtained from requestPasswordReset. Every existing session is ended.
+     */
+    resetPassword: async (token: string, newPassword: string): Promise<string> => {
+      assertPasswordLength(newPassword);
+      const { message } = await postAuth<{ message: string }>('/auth/password/reset', { token, password: newPassword }, 'Código de redefinição inválido ou expirado.');
+      return message;
+    },
+
+    /**
+     * Resets a local account with its recovery code.
+     * Codes are single use: a new one is issued and returned in `recoveryCode`.
+     */
+    resetWithRecoveryCode: async (email: string, code: string, newPassword: string): Promise<AuthResponse> => {
+      assertPasswordLength(newPassword);
+      await delay(800);
+      const normalizedEmail = email.toLowerCase().trim();
+      const user = readUsers().find((u) => u.email === normalizedEmail);
+
+      if (!user?.recovery || !(await verifyPassword(normalizeRecoveryCode(code), user.recovery))) {
+        throw new Error("E-mail ou código de recuperação inválido neste dispositivo.");
+      }
+
+      const recoveryCode = generateRecoveryCode();
+      await setLocalPassword(user.id, newPassword, recoveryCode);
+      return { ...(await startLocalSession(toProfile(user))), recoveryCode };
+    },
+
+    /**
+     * Changes the signed-in user's password after confirming the current one.
+     * Local accounts created before recovery codes receive one now (returned once).
+     */
+    changePassword: async (currentPassword: string, newPassword: string): Promise<{ recoveryCode?: string }> => {
+      assertPasswordLength(newPassword);
+      const session = await resolveSession();
+      if (!session) throw new SessionExpiredError();
+
+      if (session.source === 'remote') {
+        const res = await apiFetch('/auth/password/change', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ currentPassword, newPassword })
+        });
+        if (!res.ok) {
+          const err = await res.json().catch(() => ({}));
+          throw new Error(err.message || 'Falha ao alterar a senha.');
+        }
+        // The backend ends the other sessions and returns a fresh one for this device
+        startRemoteSession(await res.json());
+        return {};
+      }
+
+      const users = readUsers();
+      const user = users.find((u) => u.id === session.user.id);
+      if (!user || !(await checkCredentials(users, user, currentPassword))) {
+        throw new Error("Senha atual incorreta.");
+      }
+
+      const recoveryCode = user.recovery ? undefined : generateRecoveryCode();
+      await setLocalPassword(user.id, newPassword, recoveryCode);
+      return { recoveryCode };
+    },
+
+    /**
+     * Permanently deletes the signed-in account after confirming the password:
+     * on the backend for remote sessions (with any local copy), from DB_USERS_KEY for local ones. The session is ended either way.
+     * Resolves with the deleted user id; the caller removes the user's app data.
+     */
+    deleteAccount: async (password: string): Promise<string> => {
+      const session = await resolveSession();
+      if (!session) throw new SessionExpiredError();
+
+      if (session.source === 'remote') {
+        const res = await apiFetch('/account', {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ password })
+        });
+        if (!res.ok) {
+          const err = await res.json().catch(() => ({}));
+          throw new Error(err.message || 'Falha ao excluir a conta.');
+        }
+        // A local copy of the account (made while the backend was unreachable) must not outlive it
+        const { id, email } = session.user;
+        writeUsers(readUsers().filter((u) => u.id !== id && u.email !== email.toLowerCase()));
+      } else {
+        const users = readUsers();
+        const user = users.find((u) => u.id === session.user.id);
+        if (!user || !(await checkCredentials(users, user, password))) {
+          throw new Error("Senha incorreta.");
+        }
+        writeUsers(readUsers().filter((u) => u.id !== user.id));
+      }
+
+      storage.removeItem(SESSION_KEY);
+      return session.user.id;
+    },
+
+    /**
+     * Checks for active session.
+     * Throws SessionExpiredError if the stored session has expired and could not be refreshed.
+     */
+    getCurrentUser: async (): Promise<UserProfile | null> => {
+      const session = await resolveSession();
+      return session ? session.user : null;
+    },
+
+    /**
+     * Which store authenticated the current session.
+     */
+    getAuthSource: (): AuthSource | null => readSession()?.source ?? null,
+
+    /**
+     * Logs out.
+     */
+    logout: async (): Promise<void> => {
+      storage.removeItem(SESSION_KEY);
+      await delay(200);
+    },
+
+    apiFetch,
+  };
 };
+
+export type AuthService = ReturnType<typeof createAuthService>;
+
+export const authService = createAuthService();
+
+export const apiFetch = authService.apiFetch;
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AWARD_POLICY } from '../constants';
+import { LedgerEntry } from '../types';
+import { applyAwardPolicy } from './awardPolicy';
+import { AwardMeta } from './ledgerService';
+
+const MINUTE = 60 * 1000;
+const CHAT: AwardMeta = { source: 'chat', category: 'TASK_EXECUTION', sessionId: 's1' };
+
+let ledger: LedgerEntry[];
+
+// Records what the policy grants, like App.addPoints, with each award one cooldown after the previous one
+const award = (amount: number, reason: string, meta: AwardMeta = CHAT) => {
+  const entry = applyAwardPolicy(ledger, amount, reason, meta);
+  ledger = [...ledger, entry];
+  vi.advanceTimersByTime(AWARD_POLICY.categoryCooldownMinutes * MINUTE);
+  return entry;
+};
+
+beforeEach(() => {
+  ledger = [];
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(2024, 2, 1, 8, 0));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('applyAwardPolicy', () => {
+  it('puts a category on cooldown after an award', () => {
+    ledger = [applyAwardPolicy([], 20, 'Entrega', CHAT)];
+    expect(applyAwardPolicy(ledger, 20, 'Outra entrega', CHAT).rejection).toBe(`Categoria em recarga (${AWARD_POLICY.categoryCooldownMinutes} min)`);
+  });
+
+  it('does not start a cooldown with a penalty', () => {
+    ledger = [applyAwardPolicy([], -20, 'Procrastinou', CHAT)];
+    const entry = applyAwardPolicy(ledger, 20, 'Entrega', CHAT);
+    expect(entry.amount).toBe(20);
+    expect(entry.rejection).toBeUndefined();
+  });
+
+  it('does not decay an award whose reason was a penalty before', () => {
+    award(-10, 'Relatório');
+    expect(award(20, 'Relatório').amount).toBe(20);
+  });
+
+  it('keeps the session cap after a penalty', () => {
+    award(-20, 'Procrastinou');
+    const granted = [award(100, 'Primeira entrega'), award(100, 'Segunda entrega'), award(100, 'Terceira entrega')];
+
+    expect(granted.map(e => e.amount)).toEqual([100, AWARD_POLICY.sessionCap - 100, 0]);
+    expect(granted[2].rejection).toBe('Limite da sessão atingido');
+  });
+
+  it('keeps the daily cap after a penalty', () => {
+    award(-20, 'Procrastinou', { ...CHAT, sessionId: 's0' });
+    const amounts = ['a', 'b', 'c', 'd'].map((s, i) => award(100, `Entrega ${i}`, { ...CHAT, sessionId: s }).amount);
+
+    expect(amounts).toEqual([100, 100, AWARD_POLICY.dailyCap - 200, 0]);
+  });
+
+  it('lets penalties and sources outside the policy through', () => {
+    ledger = [applyAwardPolicy([], 20, 'Entrega', CHAT)];
+    expect(applyAwardPolicy(ledger, -30, 'Falhou', CHAT).amount).toBe(-30);
+    expect(applyAwardPolicy(ledger, 500, 'Ciclo', { source: 'timer' }).amount).toBe(500);
+  });
+});
@@ -0,0 +1,64 @@
+import { LedgerEntry } from "../types";
+import { AWARD_POLICY } from "../constants";
+import { AwardMeta, createLedgerEntry, isActiveEntry } from "./ledgerService";
+import { toDayKey } from "./streakService";
+
+const normalizeReason = (reason: string) => reason.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const reject = (entry: LedgerEntry, rejection: string): LedgerEntry => ({
+  ...entry,
+  amount: 0,
+  requestedAmount: entry.amount,
+  rejection,
+});
+
+const adjust = (entry: LedgerEntry, amount: number): LedgerEntry => {
+  if (amount === entry.amount) return entry;
+  return { ...entry, amount, requestedAmount: entry.requestedAmount ?? entry.amount };
+};
+
+const sumAmounts = (entries: LedgerEntry[]) => entries.reduce((sum, e) => sum + e.amount, 0);
+
+/**
+ * Turns a requested award into the ledger entry that will actually be recorded.
+ * Rules run in order: category cooldown, diminishing returns, session cap, daily cap.
+ * Refused awards are still returned (with `rejection` set) so the ledger keeps an audit trail.
+ */
+export const applyAwardPolicy = (
+  ledger: LedgerEntry[],
+  amount: number,
+  reason: string,
+  meta: AwardMeta
+): LedgerEntry => {
+  let entry = createLedgerEntry(amount, reason, meta);
+  if (amount <= 0 || !AWARD_POLICY.sources.includes(meta.source)) return entry;
+
+  const now = entry.timestamp;
+  const today = toDayKey(now);
+  // Only awards granted count against the policy: a penalty neither starts a cooldown nor frees room under a cap
+  const counted = ledger.filter(e => isActiveEntry(e) && e.amount > 0 && AWARD_POLICY.sources.includes(e.source));
+  const countedToday = counted.filter(e => toDayKey(e.timestamp) === today);
+
+  if (meta.category) {
+    const cooldownMs = AWARD_POLICY.categoryCooldownMinutes * 60 * 1000;
+    const recent = counted.find(e => e.category === meta.category && now.getTime() - e.timestamp.getTime() < cooldownMs);
+    if (recent) return reject(entry, `Categoria em recarga (${AWARD_POLICY.categoryCooldownMinutes} min)`);
+  }
+
+  const repeats = countedToday.filter(e => normalizeReason(e.reason) === normalizeReason(reason)).length;
+  if (repeats > 0) {
+    const decayed = Math.floor(amount * Math.pow(AWARD_POLICY.repeatDecay, repeats));
+    if (decayed < 1) return reject(entry, 'Motivo repetido hoje');
+    entry = adjust(entry, decayed);
+  }
+
+  if (meta.sessionId) {
+    const sessionRemaining = AWARD_POLICY.sessionCap - sumAmounts(counted.filter(e => e.sessionId === meta.sessionId));
+    if (sessionRemaining <= 0) return reject(entry, 'Limite da sessão atingido');
+    entry = adjust(entry, Math.min(entry.amount, sessionRemaining));
+  }
+
+  const dailyRemaining = AWARD_POLICY.dailyCap - sumAmounts(countedToday);
+  if (dailyRemaining <= 0) return reject(entry, 'Limite diário atingido');
+  return adjust(entry, Math.min(entry.amount, dailyRemaining));
+};
@@ -0,0 +1,194 @@
+import { AccountArchive, ChatSession, FocusSession, LedgerEntry, MentalMapItem, UserProfile, UserStats } from "../types";
+import { createOpeningBalance, deriveLifetimePoints, derivePoints, hydrateLedger } from "./ledgerService";
+import { getCycleStart, getLevel, hydratePrestigeHistory } from "./progressionService";
+import { hydrateAchievements } from "./achievementService";
+import { checkCollectionRecord, checkRecord, isDateLike, isObject, isString } from "./schema";
+import { UserCollection } from "./storage";
+import { byTime, mergeById, mergeLedgers, mergeSession, mergeStats } from "./mergeService";
+
+const SUPPORTED_VERSION = 1;
+const MAX_REPORTED_ISSUES = 8;
+
+/** The app data an archive can restore. */
+export interface UserDataSnapshot {
+  sessions: ChatSession[];
+  maps: MentalMapItem[];
+  stats: UserStats;
+  ledger: LedgerEntry[];
+  focus: FocusSession[];
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupPreview {
+  profile: UserProfile;
+  exportedAt: Date;
+  sameAccount: boolean;
+  sessions: number;
+  maps: number;
+  ledgerEntries: number;
+  focusSessions: number;
+  points: number;
+  lifetimePoints: number;
+  achievements: number;
+  // What a merge would add to the current data
+  newSessions: number;
+  newMaps: number;
+  newLedgerEntries: number;
+  newFocusSessions: number;
+}
+
+export class BackupValidationError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Arquivo de backup inválido: ${issues.slice(0, MAX_REPORTED_ISSUES).join('; ')}${issues.length > MAX_REPORTED_ISSUES ? '...' : ''}`);
+    this.name = 'BackupValidationError';
+  }
+}
+
+// --- Hydration (JSON -> Date fields) ---
+
+export const hydrateSessions = (sessions: ChatSession[]): ChatSession[] => {
+  return sessions.map(s => ({
+    ...s,
+    lastModified: new Date(s.lastModified),
+    messages: s.messages.map(m => ({ ...m, timestamp: new Date(m.timestamp) }))
+  }));
+};
+
+export const hydrateMaps = (maps: MentalMapItem[]): MentalMapItem[] => {
+  return maps.map(m => ({ ...m, createdAt: new Date(m.createdAt) }));
+};
+
+export const hydrateFocusLog = (log: FocusSession[]): FocusSession[] => {
+  return log.map(s => ({ ...s, startedAt: new Date(s.startedAt), endedAt: new Date(s.endedAt) }));
+};
+
+// --- Schema ---
+
+// Collections use the same record rules as the stored data (services/schema.ts)
+const checkCollection = (issues: string[], collection: UserCollection, value: unknown) => {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    issues.push(`${collection} não é uma lista`);
+    return;
+  }
+  value.forEach((item, i) => checkCollectionRecord(issues, collection, `${collection}[${i}]`, item));
+};
+
+/**
+ * Parses and validates an archive produced by accountService.exportAccount.
+ * Throws BackupValidationError listing what is wrong; never returns a partially valid archive.
+ */
+export const parseArchive = (raw: string): AccountArchive => {
+  let archive: any;
+  try {
+    archive = JSON.parse(raw);
+  } catch (e) {
+    throw new BackupValidationError(['o arquivo não é JSON']);
+  }
+
+  const issues: string[] = [];
+  if (!isObject(archive) || archive.format !== 'mentor-export') {
+    throw new BackupValidationError(['o arquivo não é um backup do Mentor']);
+  }
+  if (typeof archive.version !== 'number' || archive.version > SUPPORTED_VERSION) {
+    issues.push(`versão ${archive.version} não suportada`);
+  }
+  if (!isDateLike(archive.exportedAt)) issues.push('exportedAt inválido');
+  checkRecord(issues, 'profile', archive.profile, [['id', isString], ['name', isString], ['email', isString]]);
+
+  if (!isObject(archive.data)) {
+    issues.push('data ausente');
+  } else {
+    const { sessions, maps, ledger, focus, stats } = archive.data;
+    checkCollection(issues, 'sessions', sessions);
+    checkCollection(issues, 'maps', maps);
+    checkCollection(issues, 'ledger', ledger);
+    checkCollection(issues, 'focus', focus);
+    if (stats !== undefined) checkCollectionRecord(issues, 'stats', 'stats', stats);
+  }
+
+  if (issues.length > 0) throw new BackupValidationError(issues);
+  return archive as AccountArchive;
+};
+
+/** Converts a validated archive into app data with real Dates. Archives without a ledger get an opening balance. */
+const readArchive = (archive: AccountArchive, userId: string): UserDataSnapshot => {
+  const savedStats: Partial<UserStats> = archive.data.stats || {};
+  return {
+    sessions: hydrateSessions(archive.data.sessions || []),
+    maps: hydrateMaps(archive.data.maps || []),
+    ledger: archive.data.ledger ? hydrateLedger(archive.data.ledger) : createOpeningBalance(savedStats.points || 0),
+    focus: hydrateFocusLog(archive.data.focus || []),
+    stats: {
+      userId,
+      points: 0,
+      lifetimePoints: 0,
+      level: 1,
+      streak: 0,
+      bestStreak: savedStats.bestStreak || 0,
+      achievements: hydrateAchievements(savedStats.achievements || []),
+      voiceSessions: savedStats.voiceSessions || 0,
+      prestige: savedStats.prestige || 0,
+      prestigeHistory: hydratePrestigeHistory(savedStats.prestigeHistory || []),
+    },
+  };
+};
+
+// --- Merge ---
+
+/** Points, lifetime and level always come from the ledger, never from the archive's counters. */
+const reconcileStats = (stats: UserStats, ledger: LedgerEntry[]): UserStats => {
+  const points = derivePoints(ledger, getCycleStart(stats.prestigeHistory));
+  return { ...stats, points, lifetimePoints: deriveLifetimePoints(ledger), level: getLevel(points) };
+};
+
+/**
+ * Combines the current data with an archive.
+ * - replace: the archive's data is used as-is (stats still reconciled through its ledger).
+ * - merge: sessions, maps, ledger entries and focus sessions are de-duplicated by id; counters that cannot be
+ *   derived (voice sessions, best streak) keep the highest value; achievements and prestige cycles are unioned.
+ */
+export const restoreBackup = (archive: AccountArchive, current: UserDataSnapshot, mode: RestoreMode): UserDataSnapshot => {
+  const incoming = readArchive(archive, current.stats.userId);
+
+  if (mode === 'replace') {
+    return { ...incoming, stats: reconcileStats(incoming.stats, incoming.ledger) };
+  }
+
+  const ledger = mergeLedgers(current.ledger, incoming.ledger);
+  return {
+    // Sessions are kept in creation order (new ones appended), maps newest first, as the app stores them
+    sessions: mergeById(current.sessions, incoming.sessions, mergeSession),
+    maps: mergeById(current.maps, incoming.maps, m => m).sort(byTime<MentalMapItem>(m => m.createdAt)).reverse(),
+    ledger,
+    focus: mergeById(current.focus, incoming.focus, s => s).sort(byTime<FocusSession>(s => s.startedAt)),
+    stats: reconcileStats(mergeStats(current.stats, incoming.stats), ledger),
+  };
+};
+
+export const previewBackup = (archive: AccountArchive, current: UserDataSnapshot): BackupPreview => {
+  const incoming = readArchive(archive, current.stats.userId);
+  const stats = reconcileStats(incoming.stats, incoming.ledger);
+  const countNew = (items: { id: string }[], existing: { id: string }[]) => {
+    const ids = new Set(existing.map(i => i.id));
+    return items.filter(i => !ids.has(i.id)).length;
+  };
+
+  return {
+    profile: archive.profile,
+    exportedAt: new Date(archive.exportedAt),
+    sameAccount: archive.profile.id === current.stats.userId,
+    sessions: incoming.sessions.length,
+    maps: incoming.maps.length,
+    ledgerEntries: incoming.ledger.length,
+    focusSessions: incoming.focus.length,
+    points: stats.points,
+    lifetimePoints: stats.lifetimePoints,
+    achievements: stats.achievements.length,
+    newSessions: countNew(incoming.sessions, current.sessions),
+    newMaps: countNew(incoming.maps, current.maps),
+    newLedgerEntries: countNew(incoming.ledger, current.ledger),
+    newFocusSessions: countNew(incoming.focus, current.focus),
+  };
+};
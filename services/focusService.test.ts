@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { CYCLE_PROGRAMS } from '../constants';
+import { createAbandonedSession } from './focusService';
+import { advanceTimer, createTimer, loadProgram, pauseTimer, startTimer } from './timerService';
+
+const MINUTE = 60 * 1000;
+const POMODORO = CYCLE_PROGRAMS[0];
+
+describe('createAbandonedSession', () => {
+  it('is null when no run was started', () => {
+    expect(createAbandonedSession(createTimer(25), MINUTE)).toBeNull();
+  });
+
+  it('logs a running focus block as failed, with the time counted so far', () => {
+    const timer = pauseTimer(startTimer({ ...createTimer(25), deliverable: 'Relatório' }, 0), 4 * MINUTE);
+    const session = createAbandonedSession(startTimer(timer, 5 * MINUTE), 12 * MINUTE);
+
+    expect(session).toMatchObject({ deliverable: 'Relatório', outcome: 'FAILED', focusMs: 11 * MINUTE, pauses: 1 });
+    expect(session?.startedAt).toEqual(new Date(0));
+    expect(session?.endedAt).toEqual(new Date(12 * MINUTE));
+  });
+
+  it('does not count the break of a program as focus', () => {
+    const { timer: onBreak } = advanceTimer(startTimer(loadProgram(createTimer(), POMODORO), 0), 26 * MINUTE);
+    expect(onBreak.mode).toBe('BREAK');
+
+    const session = createAbandonedSession(onBreak, 28 * MINUTE);
+    expect(session).toMatchObject({ outcome: 'FAILED', focusMs: POMODORO.focusMinutes * MINUTE });
+  });
+});
@@ -0,0 +1,121 @@
+import { FocusSession, TimerState } from "../types";
+import { FREE_MODE_MAX_POINTS, FREE_MODE_POINTS_PER_MINUTE, TIMER_DELIVERY_POINTS } from "../constants";
+import { generateId } from "./ledgerService";
+import { getElapsedMs } from "./timerService";
+import { byTime } from "./mergeService";
+import { dayIndex, toDayKey } from "./streakService";
+
+const MINUTE_MS = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MINUTE_MS;
+const DAILY_DAYS = 7;
+const WEEKLY_WEEKS = 8;
+export const HEATMAP_WEEKS = 15;
+
+/**
+ * The log record of the session the post-check just answered. Timers started before runs were tracked
+ * have no run: their session is taken to be the last block, without pauses.
+ */
+export const createFocusSession = (timer: TimerState, outcome: FocusSession['outcome'], now: number): FocusSession => {
+  const endedAt = timer.completedAt ?? now;
+  const { program } = timer;
+  const run = timer.run ?? { startedAt: endedAt - timer.elapsedMs, pauses: 0, focusMs: timer.elapsedMs };
+  return {
+    id: generateId(),
+    deliverable: timer.deliverable?.trim() ?? '',
+    mode: timer.mode,
+    ...(program && { programId: program.id, cycles: timer.cycle ?? 1 }),
+    plannedMs: program ? program.focusMinutes * program.totalCycles * MINUTE_MS : timer.durationMs,
+    focusMs: run.focusMs,
+    pauses: run.pauses,
+    ...(run.laps && run.laps.length > 0 && { laps: run.laps }),
+    outcome,
+    startedAt: new Date(run.startedAt),
+    endedAt: new Date(endedAt),
+  };
+};
+
+/**
+ * The log record of a run dropped before the post-check (reset, preset or program change): a failure,
+ * with the focus counted up to `now`. Null when no run was started.
+ */
+export const createAbandonedSession = (timer: TimerState, now: number): FocusSession | null => {
+  if (!timer.run) return null;
+  // A completed block (or stopped stopwatch) is already in focusMs
+  const currentMs = timer.completedAt === null && timer.mode !== 'BREAK' ? getElapsedMs(timer, now) : 0;
+  return createFocusSession({ ...timer, run: { ...timer.run, focusMs: timer.run.focusMs + currentMs } }, 'FAILED', now);
+};
+
+/** Points for a deliverable confirmed in the post-check; on the stopwatch they scale with the time counted. */
+export const getDeliveryPoints = (timer: TimerState): number => timer.mode === 'FREE'
+  ? Math.min(FREE_MODE_MAX_POINTS, Math.floor(timer.elapsedMs / MINUTE_MS) * FREE_MODE_POINTS_PER_MINUTE)
+  : TIMER_DELIVERY_POINTS;
+
+// --- Analytics ---
+
+export interface FocusDay {
+  /** YYYY-MM-DD; the Monday for weekly totals. */
+  day: string;
+  minutes: number;
+}
+
+export interface FocusSummary {
+  todayMinutes: number;
+  weekMinutes: number;
+  /** Last DAILY_DAYS days, oldest first. */
+  daily: FocusDay[];
+  /** Last WEEKLY_WEEKS weeks (Monday to Sunday), oldest first. */
+  weekly: FocusDay[];
+  /** Every day from the Monday HEATMAP_WEEKS weeks back until today. */
+  heatmap: FocusDay[];
+  sessions: number;
+  executed: number;
+  /** Share of sessions answered as executed (0-1); null without sessions. */
+  successRate: number | null;
+  /** Longest run of consecutive sessions answered as executed. */
+  longestStreak: number;
+}
+
+const dayKeyOf = (index: number) => new Date(index * MS_PER_DAY).toISOString().slice(0, 10);
+
+// Day index 0 (1970-01-01) was a Thursday
+const weekStart = (index: number) => index - ((index + 3) % 7);
+
+const range = (from: number, count: number, step = 1) => Array.from({ length: count }, (_, i) => from + i * step);
+
+/**
+ * Focus minutes per day, week and calendar, success rate and streak of the log. Minutes count on the
+ * day (in `timeZone`, the browser's by default) the session started, and include failed sessions.
+ */
+export const summarizeFocus = (log: FocusSession[], now: Date = new Date(), timeZone?: string): FocusSummary => {
+  const minutesByDay = new Map<number, number>();
+  log.forEach(s => {
+    const day = dayIndex(toDayKey(s.startedAt, timeZone));
+    minutesByDay.set(day, (minutesByDay.get(day) || 0) + s.focusMs / MINUTE_MS);
+  });
+  const minutesBetween = (from: number, to: number) => Math.round(range(from, to - from + 1).reduce((sum, d) => sum + (minutesByDay.get(d) || 0), 0));
+  const toFocusDay = (from: number, days = 1): FocusDay => ({ day: dayKeyOf(from), minutes: minutesBetween(from, from + days - 1) });
+
+  const today = dayIndex(toDayKey(now, timeZone));
+  const thisWeek = weekStart(today);
+  const heatmapStart = thisWeek - (HEATMAP_WEEKS - 1) * 7;
+
+  let longestStreak = 0;
+  let streak = 0;
+  [...log].sort(byTime(s => s.startedAt)).forEach(s => {
+    streak = s.outcome === 'EXECUTED' ? streak + 1 : 0;
+    longestStreak = Math.max(longestStreak, streak);
+  });
+  const executed = log.filter(s => s.outcome === 'EXECUTED').length;
+
+  return {
+    todayMinutes: minutesBetween(today, today),
+    weekMinutes: minutesBetween(thisWeek, today),
+    daily: range(today - DAILY_DAYS + 1, DAILY_DAYS).map(d => toFocusDay(d)),
+    weekly: range(thisWeek - (WEEKLY_WEEKS - 1) * 7, WEEKLY_WEEKS, 7).map(w => toFocusDay(w, 7)),
+    heatmap: range(heatmapStart, today - heatmapStart + 1).map(d => toFocusDay(d)),
+    sessions: log.length,
+    executed,
+    successRate: log.length > 0 ? executed / log.length : null,
+    longestStreak,
+  };
+};
@@ -0,0 +1,80 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { TestServer, startTestServer } from '../server/testServer';
+import { MentorResponse } from '../types';
+import { createMemoryKeyValueStore } from './keyValueStore';
+
+// The service reads its mode and backend URL when it is imported, so it is imported once the server is up
+let server: TestServer;
+let gemini: typeof import('./geminiService');
+
+beforeAll(async () => {
+  server = await startTestServer({ aiRequiresAuth: false });
+  vi.stubEnv('VITE_API_URL', server.url);
+  vi.stubEnv('VITE_GEMINI_MODE', 'proxy');
+  vi.stubGlobal('localStorage', createMemoryKeyValueStore());
+  gemini = await import('./geminiService');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  await server.close();
+});
+
+const collect = async (res: Response) => {
+  const lines: MentorResponse[] = [];
+  for await (const line of gemini.readNdjson(res)) lines.push(line);
+  return lines;
+};
+
+describe('readNdjson', () => {
+  it('reads lines split across chunks', async () => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        ['{"text":"Exe', 'cute","awards":[]}\n{"text":"', ' agora","awards":[]}\n'].forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    });
+    expect(await collect(new Response(body))).toEqual([{ text: 'Execute', awards: [] }, { text: ' agora', awards: [] }]);
+  });
+
+  it('keeps a last line that has no newline', async () => {
+    const body = '{"text":"a","awards":[]}\n\n{"text":"b","awards":[{"amount":5,"reason":"r","category":"NEW_HABIT"}]}';
+    expect(await collect(new Response(body))).toEqual([
+      { text: 'a', awards: [] },
+      { text: 'b', awards: [{ amount: 5, reason: 'r', category: 'NEW_HABIT' }] },
+    ]);
+  });
+
+  it('throws on an error line, with or without its newline', async () => {
+    await expect(collect(new Response('{"text":"a","awards":[]}\n{"error":"Falhou."}\n'))).rejects.toThrow('Falhou.');
+    await expect(collect(new Response('{"text":"a","awards":[]}\n{"error":"Falhou."}'))).rejects.toThrow('Falhou.');
+  });
+});
+
+describe('proxy mode against the reference server', () => {
+  it('streams the reply and collects the awards', async () => {
+    const chunks: string[] = [];
+    const result = await gemini.streamTextResponse([], 'Qual o próximo passo?', text => chunks.push(text));
+
+    expect(result).toEqual({ text: '[stub] Qual o próximo passo?', awards: [{ amount: 10, reason: 'Resposta simulada', category: 'TASK_EXECUTION' }] });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[chunks.length - 1]).toBe(result.text);
+  });
+
+  it('calls the other /ai routes', async () => {
+    expect((await gemini.generateTextResponse([], 'Oi')).text).toBe('[stub] Oi');
+    expect(await gemini.generateMentalMapStructure('Foco')).toContain('[stub] Ramo 1');
+    expect(await gemini.getVoiceClientOptions()).toEqual({ apiKey: 'stub-ephemeral-token', httpOptions: { apiVersion: 'v1alpha' } });
+  });
+
+  it('surfaces the backend message when the server refuses the call', async () => {
+    server.ctx.aiRequiresAuth = true;
+    try {
+      await expect(gemini.generateTextResponse([], 'Oi')).rejects.toThrow('Sessão inválida ou expirada.');
+    } finally {
+      server.ctx.aiRequiresAuth = false;
+    }
+  });
+});
@@ -1,6 +1,11 @@
 
-import { GoogleGenAI, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import { SYSTEM_INSTRUCTION } from "../constants";
+import { GoogleGenAI, GoogleGenAIOptions, GenerateContentResponse } from "@google/genai";
+import { MentorResponse } from "../types";
+import { apiFetch } from "./authService";
+import {
+  CHAT_CONFIG, CHAT_MODEL, ChatHistory, MAP_CONFIG, MAP_MODEL,
+  assertNotEmpty, buildChatContents, buildMentalMapPrompt, readParts
+} from "./mentorModel";
 
 // --- AGGRESSIVE KEY EXTRACTION ---
 const getEnvVar = (key: string): string => {
@@ -88,77 +93,169 @@ async function executeWithFallback<T>(
   throw new Error(`${msg} (${lastError?.message || 'Erro desconhecido'})`);
 }
 
+// --- PROXY MODE ---
+// 'proxy': every call goes through the backend (/ai/* in server/README.md), which holds the keys.
+// 'direct': the browser calls Gemini itself with the keys injected by vite.config.ts.
+const GEMINI_MODE: 'proxy' | 'direct' = getEnvVar('GEMINI_MODE') === 'proxy' ? 'proxy' : 'direct';
+
+const proxyPost = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  const res = await apiFetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.message || `Erro de conexão com o Mentor. (HTTP ${res.status})`);
+  }
+  return res;
+};
+
+const parseNdjsonLine = (line: string): MentorResponse => {
+  const data = JSON.parse(line);
+  if (data.error) throw new Error(data.error);
+  return data;
+};
+
+/** Reads the NDJSON body of /ai/chat/stream, one MentorResponse delta (or `{ error }`) per line. */
+export async function* readNdjson(res: Response): AsyncGenerator<MentorResponse> {
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) yield parseNdjsonLine(line);
+    }
+  }
+  // The last line may arrive without its newline
+  if (buffer.trim()) yield parseNdjsonLine(buffer);
+}
+
 // --- PUBLIC SERVICES ---
 
-export const getVoiceApiKey = async (): Promise<string> => {
+/**
+ * Options for the GoogleGenAI client used by LiveVoice.
+ * In proxy mode this is a single-use ephemeral token minted by the server, never a real key.
+ */
+export const getVoiceClientOptions = async (): Promise<GoogleGenAIOptions> => {
+  if (GEMINI_MODE === 'proxy') {
+    const res = await proxyPost('/ai/live-token', {});
+    const { token } = await res.json();
+    // Ephemeral tokens only exist in v1alpha
+    return { apiKey: token, httpOptions: { apiVersion: 'v1alpha' } };
+  }
+
   const keys = API_GROUPS.B;
   if (keys.length === 0) {
-     if (MAIN_KEY) return MAIN_KEY;
+     if (MAIN_KEY) return { apiKey: MAIN_KEY };
      throw new Error("Sistema de Voz sem chave de acesso.");
   }
-  return keys[0];
+  return { apiKey: keys[0] };
 };
 
-export const generateTextResponse = async (history: {role: string, parts: {text: string}[]}[], userMessage: string) => {
+export const generateTextResponse = async (history: ChatHistory, userMessage: string): Promise<MentorResponse> => {
+  if (GEMINI_MODE === 'proxy') {
+    const res = await proxyPost('/ai/chat', { history, message: userMessage });
+    return res.json();
+  }
+
   return executeWithFallback('A', async (apiKey) => {
     const ai = new GoogleGenAI({ apiKey });
-    
-    const validHistory = history.filter(h => h.parts && h.parts[0]?.text);
-
-    const contents = [
-      ...validHistory,
-      { role: 'user', parts: [{ text: userMessage }] }
-    ];
 
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash', 
-      contents: contents,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        maxOutputTokens: 2048,
-        temperature: 0.9, // Higher temp for more personality
-        safetySettings: [
-            { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-        ]
-      }
+      model: CHAT_MODEL, 
+      contents: buildChatContents(history, userMessage),
+      config: CHAT_CONFIG
     });
 
-    if (!response.text) {
-        if (response.candidates && response.candidates[0]?.finishReason) {
-            throw new Error(`Bloqueio de Segurança: ${response.candidates[0].finishReason}`);
+    const result = readParts(response);
+    assertNotEmpty(result, response);
+    return result;
+  });
+};
+
+/**
+ * Streaming variant of generateTextResponse.
+ * Calls `onChunk` with the accumulated text after every chunk and resolves with the full result.
+ * If `signal` is aborted mid-generation, resolves with whatever arrived so far instead of throwing.
+ */
+export const streamTextResponse = async (
+  history: ChatHistory,
+  userMessage: string,
+  onChunk: (accumulated: string) => void,
+  signal?: AbortSignal
+): Promise<MentorResponse> => {
+  if (GEMINI_MODE === 'proxy') {
+    const result: MentorResponse = { text: '', awards: [] };
+    try {
+      const res = await proxyPost('/ai/chat/stream', { history, message: userMessage }, signal);
+      for await (const { text, awards } of readNdjson(res)) {
+        result.awards.push(...awards);
+        if (text) {
+          result.text += text;
+          onChunk(result.text);
         }
-        throw new Error("Resposta vazia do modelo.");
+      }
+    } catch (error: any) {
+      if (signal?.aborted) return result;
+      throw error;
     }
+    if (!signal?.aborted) assertNotEmpty(result, null);
+    return result;
+  }
+
+  return executeWithFallback('A', async (apiKey) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const result: MentorResponse = { text: '', awards: [] };
+    let lastChunk: GenerateContentResponse | null = null;
+
+    try {
+      const stream = await ai.models.generateContentStream({
+        model: CHAT_MODEL,
+        contents: buildChatContents(history, userMessage),
+        config: { ...CHAT_CONFIG, abortSignal: signal }
+      });
 
-    return response.text;
+      for await (const chunk of stream) {
+        if (signal?.aborted) break;
+        lastChunk = chunk;
+        const { text, awards } = readParts(chunk);
+        result.awards.push(...awards);
+        if (text) {
+          result.text += text;
+          onChunk(result.text);
+        }
+      }
+    } catch (error: any) {
+      // User pressed Stop: keep the partial text, never fall back to another key.
+      if (signal?.aborted) return result;
+      throw error;
+    }
+
+    if (!signal?.aborted) assertNotEmpty(result, lastChunk);
+    return result;
   });
 };
 
 export const generateMentalMapStructure = async (topic: string) => {
+  if (GEMINI_MODE === 'proxy') {
+    const res = await proxyPost('/ai/mental-map', { topic });
+    const { text } = await res.json();
+    return text as string;
+  }
+
   return executeWithFallback('C', async (apiKey) => {
     const ai = new GoogleGenAI({ apiKey });
 
-    const prompt = `
-      Crie um MAPA MENTAL ESTRUTURADO em formato de ÁRVORE DE TEXTO (ASCII/Tree Style) sobre: "${topic}".
-      REGRAS VISUAIS:
-      - Use caracteres ASCII para conectar: ├──, └──, │.
-      - Não use Markdown code blocks (\`\`\`), apenas o texto puro.
-      - Seja hierárquico, direto e focado em EXECUÇÃO.
-      - Limite a 3 níveis de profundidade.
-    `;
-
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [{ text: prompt }] },
-      config: {
-        safetySettings: [
-            { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-        ]
-      }
+      model: MAP_MODEL,
+      contents: { parts: [{ text: buildMentalMapPrompt(topic) }] },
+      config: MAP_CONFIG
     });
 
     return response.text || "Erro ao gerar mapa.";
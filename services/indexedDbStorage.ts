@@ -0,0 +1,105 @@
+import { StorageBackend, StoredCollection } from "./storage";
+
+const DB_NAME = 'mentor';
+const DB_VERSION = 1;
+const STORE = 'records';
+
+// One object store for every collection; the compound key keeps users and collections apart
+interface StoredRecord {
+  userId: string;
+  collection: StoredCollection;
+  id: string;
+  value: unknown;
+}
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const openDatabase = (name: string) => new Promise<IDBDatabase>((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error('IndexedDB não suportado.'));
+    return;
+  }
+  const request = indexedDB.open(name, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE, { keyPath: ['userId', 'collection', 'id'] });
+    store.createIndex('byCollection', ['userId', 'collection']);
+    store.createIndex('byUser', 'userId');
+  };
+  // An upgrade blocked by an older tab would wait until that tab closes: fail now so the caller can fall back
+  let blocked = false;
+  request.onblocked = () => {
+    blocked = true;
+    reject(new Error('IndexedDB bloqueado por outra aba.'));
+  };
+  request.onsuccess = () => {
+    if (blocked) {
+      request.result.close();
+      return;
+    }
+    // Let a newer version opened in another tab upgrade instead of staying blocked by this connection
+    request.result.onversionchange = () => request.result.close();
+    resolve(request.result);
+  };
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * StorageBackend on IndexedDB. Values go through structured clone, so Dates survive as Dates.
+ */
+export const createIndexedDbStorage = async (name = DB_NAME): Promise<StorageBackend> => {
+  const db = await openDatabase(name);
+
+  const transaction = (mode: IDBTransactionMode) => {
+    const tx = db.transaction(STORE, mode);
+    return { tx, store: tx.objectStore(STORE) };
+  };
+
+  return {
+    async get<T>(userId: string, collection: StoredCollection, id: string) {
+      const { store } = transaction('readonly');
+      const record = await promisify<StoredRecord | undefined>(store.get([userId, collection, id]));
+      return record?.value as T | undefined;
+    },
+
+    async list<T>(userId: string, collection: StoredCollection) {
+      const { store } = transaction('readonly');
+      const records = await promisify<StoredRecord[]>(store.index('byCollection').getAll([userId, collection]));
+      return records.map(r => r.value as T);
+    },
+
+    async put(userId, collection, id, value) {
+      const { tx, store } = transaction('readwrite');
+      store.put({ userId, collection, id, value } satisfies StoredRecord);
+      await completion(tx);
+    },
+
+    async delete(userId, collection, id) {
+      const { tx, store } = transaction('readwrite');
+      store.delete([userId, collection, id]);
+      await completion(tx);
+    },
+
+    async write(userId, collection, changes) {
+      const { tx, store } = transaction('readwrite');
+      changes.put?.forEach(([id, value]) => store.put({ userId, collection, id, value } satisfies StoredRecord));
+      changes.delete?.forEach(id => store.delete([userId, collection, id]));
+      await completion(tx);
+    },
+
+    async clear(userId) {
+      const { tx, store } = transaction('readwrite');
+      const keys = await promisify(store.index('byUser').getAllKeys(userId));
+      keys.forEach(key => store.delete(key));
+      await completion(tx);
+    },
+  };
+};
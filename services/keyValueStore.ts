@@ -0,0 +1,23 @@
+/** The part of the Web Storage API the auth services use, so tests can run them without a browser. */
+export interface KeyValueStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/** localStorage, looked up on each call so importing the services never touches it. */
+export const browserStorage: KeyValueStore = {
+  getItem: (key) => localStorage.getItem(key),
+  setItem: (key, value) => localStorage.setItem(key, value),
+  removeItem: (key) => localStorage.removeItem(key),
+};
+
+/** Non-persistent KeyValueStore for tests. */
+export const createMemoryKeyValueStore = (initial: Record<string, string> = {}): KeyValueStore => {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, String(value)); },
+    removeItem: (key) => { items.delete(key); },
+  };
+};
@@ -0,0 +1,71 @@
+import { LedgerEntry, LedgerSource, AwardCategory } from "../types";
+import { MAX_POINTS, MIN_POINTS } from "../constants";
+
+export interface AwardMeta {
+  source: LedgerSource;
+  category?: AwardCategory;
+  sessionId?: string;
+  messageId?: string;
+}
+
+export const generateId = () => {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+};
+
+export const createLedgerEntry = (amount: number, reason: string, meta: AwardMeta): LedgerEntry => ({
+  id: generateId(),
+  amount,
+  reason,
+  ...meta,
+  timestamp: new Date(),
+});
+
+export const isActiveEntry = (entry: LedgerEntry) => !entry.reversedAt && !entry.rejection;
+
+/**
+ * Replays the ledger in chronological order to derive the score of the current cycle.
+ * Replaying (instead of summing) keeps the cap and the floor behaving exactly as they did when each entry happened.
+ * Entries up to `cycleStart` belong to previous prestige cycles and are skipped.
+ */
+export const derivePoints = (ledger: LedgerEntry[], cycleStart?: Date): number => {
+  return [...ledger]
+    .filter(isActiveEntry)
+    .filter(e => !cycleStart || e.timestamp.getTime() > cycleStart.getTime())
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .reduce((points, entry) => {
+      return Math.max(MIN_POINTS, Math.min(points + entry.amount, MAX_POINTS));
+    }, Math.max(MIN_POINTS, 0));
+};
+
+/** Uncapped total across every prestige cycle. */
+export const deriveLifetimePoints = (ledger: LedgerEntry[]): number => {
+  const total = ledger.filter(isActiveEntry).reduce((sum, e) => sum + e.amount, 0);
+  return Math.max(MIN_POINTS, total);
+};
+
+export const reverseLedgerEntry = (ledger: LedgerEntry[], entryId: string): LedgerEntry[] => {
+  return ledger.map(e => e.id === entryId && isActiveEntry(e) ? { ...e, reversedAt: new Date() } : e);
+};
+
+export const hydrateLedger = (ledger: LedgerEntry[]): LedgerEntry[] => {
+  return ledger.map(e => ({
+    ...e,
+    timestamp: new Date(e.timestamp),
+    reversedAt: e.reversedAt ? new Date(e.reversedAt) : undefined,
+  }));
+};
+
+/**
+ * Accounts created before the ledger only have a bare counter.
+ * Their balance becomes a single opening entry so the derived score does not reset.
+ */
+export const createOpeningBalance = (points: number): LedgerEntry[] => {
+  if (!points || points <= 0) return [];
+  return [{
+    ...createLedgerEntry(points, 'Saldo anterior ao extrato', { source: 'system' }),
+    timestamp: new Date(0),
+  }];
+};
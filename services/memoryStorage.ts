@@ -0,0 +1,47 @@
+import { StorageBackend } from "./storage";
+
+/**
+ * Non-persistent StorageBackend for tests and for browsers without IndexedDB.
+ * Values are cloned on the way in and out, like IndexedDB does, so callers cannot mutate stored records.
+ */
+export const createMemoryStorage = (): StorageBackend => {
+  const records = new Map<string, unknown>();
+  const key = (userId: string, collection: string, id: string) => JSON.stringify([userId, collection, id]);
+  const prefix = (userId: string, collection?: string) => JSON.stringify(collection ? [userId, collection] : [userId]).slice(0, -1) + ',';
+
+  const put = (userId: string, collection: string, id: string, value: unknown) => {
+    records.set(key(userId, collection, id), structuredClone(value));
+  };
+
+  return {
+    async get<T>(userId: string, collection: string, id: string) {
+      const value = records.get(key(userId, collection, id));
+      return value === undefined ? undefined : structuredClone(value) as T;
+    },
+
+    async list<T>(userId: string, collection: string) {
+      const start = prefix(userId, collection);
+      return Array.from(records.entries())
+        .filter(([k]) => k.startsWith(start))
+        .map(([, v]) => structuredClone(v) as T);
+    },
+
+    async put(userId, collection, id, value) {
+      put(userId, collection, id, value);
+    },
+
+    async delete(userId, collection, id) {
+      records.delete(key(userId, collection, id));
+    },
+
+    async write(userId, collection, changes) {
+      changes.put?.forEach(([id, value]) => put(userId, collection, id, value));
+      changes.delete?.forEach(id => records.delete(key(userId, collection, id)));
+    },
+
+    async clear(userId) {
+      const start = prefix(userId);
+      Array.from(records.keys()).filter(k => k.startsWith(start)).forEach(k => records.delete(k));
+    },
+  };
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { PointAward } from '../types';
+import { buildChatContents, toPointAward } from './mentorModel';
+
+const award: PointAward = { amount: 20, reason: 'Entregou o relatório', category: 'TASK_EXECUTION' };
+const call = { functionCall: { name: 'award_points', args: { ...award } } };
+const response = { functionResponse: { name: 'award_points', response: { output: 'registrado' } } };
+
+describe('buildChatContents', () => {
+  it('appends the new message to the text history', () => {
+    expect(buildChatContents([
+      { role: 'user', parts: [{ text: 'Oi' }] },
+      { role: 'model', parts: [{ text: 'Execute.' }] },
+    ], 'Feito')).toEqual([
+      { role: 'user', parts: [{ text: 'Oi' }] },
+      { role: 'model', parts: [{ text: 'Execute.' }] },
+      { role: 'user', parts: [{ text: 'Feito' }] },
+    ]);
+  });
+
+  it('replays earlier awards as function calls answered in the next user turn', () => {
+    expect(buildChatContents([
+      { role: 'user', parts: [{ text: 'Entreguei.' }] },
+      { role: 'model', parts: [{ text: 'Bom.' }], awards: [award] },
+      { role: 'user', parts: [{ text: 'E agora?' }] },
+      { role: 'model', parts: [{ text: 'Próximo.' }] },
+    ], 'Ok')).toEqual([
+      { role: 'user', parts: [{ text: 'Entreguei.' }] },
+      { role: 'model', parts: [{ text: 'Bom.' }, call] },
+      { role: 'user', parts: [response, { text: 'E agora?' }] },
+      { role: 'model', parts: [{ text: 'Próximo.' }] },
+      { role: 'user', parts: [{ text: 'Ok' }] },
+    ]);
+  });
+
+  it('keeps replies made only of awards and drops empty turns', () => {
+    expect(buildChatContents([
+      { role: 'user', parts: [{ text: 'Entreguei.' }] },
+      { role: 'model', parts: [{ text: '' }], awards: [award, { ...award, amount: -5 }] },
+      { role: 'model', parts: [{ text: '' }] },
+    ], 'Ok')).toEqual([
+      { role: 'user', parts: [{ text: 'Entreguei.' }] },
+      { role: 'model', parts: [call, { functionCall: { name: 'award_points', args: { ...award, amount: -5 } } }] },
+      { role: 'user', parts: [response, response, { text: 'Ok' }] },
+    ]);
+  });
+
+  it('ignores awards on user turns', () => {
+    expect(buildChatContents([{ role: 'user', parts: [{ text: 'Oi' }], awards: [award] }], 'Ok')).toEqual([
+      { role: 'user', parts: [{ text: 'Oi' }] },
+      { role: 'user', parts: [{ text: 'Ok' }] },
+    ]);
+  });
+});
+
+describe('toPointAward', () => {
+  it('reads a valid call', () => {
+    expect(toPointAward(call.functionCall)).toEqual(award);
+  });
+
+  it('fills in the reason and category the call left out', () => {
+    expect(toPointAward({ name: 'award_points', args: { amount: 7.4, reason: ' ', category: 'OUTRA' } }))
+      .toEqual({ amount: 7, reason: 'Progresso reconhecido', category: 'TASK_EXECUTION' });
+  });
+
+  it('drops other functions and calls without an amount', () => {
+    expect(toPointAward({ name: 'other', args: { ...award } })).toBeNull();
+    expect(toPointAward({ name: 'award_points', args: { ...award, amount: 'muito' } })).toBeNull();
+    expect(toPointAward({ name: 'award_points', args: { ...award, amount: 0 } })).toBeNull();
+  });
+});
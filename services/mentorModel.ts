@@ -0,0 +1,121 @@
+import { HarmCategory, HarmBlockThreshold, Type, Content, FunctionDeclaration, FunctionCall, GenerateContentResponse, Part } from "@google/genai";
+import { SYSTEM_INSTRUCTION } from "../constants";
+import { AwardCategory, MentorResponse, PointAward } from "../types";
+
+// Model requests shared by the browser client (services/geminiService.ts) and the server proxy (server/gemini.ts),
+// so both paths send exactly the same prompts, tools and safety settings.
+
+// `awards` are the award_points calls of a model turn (see buildChatContents)
+export type ChatHistory = {role: string, parts: {text: string}[], awards?: PointAward[]}[];
+
+export const CHAT_MODEL = 'gemini-2.5-flash';
+
+const AWARD_CATEGORIES: AwardCategory[] = ['TASK_EXECUTION', 'DEEP_UNDERSTANDING', 'FOCUS_CYCLE', 'NEW_HABIT'];
+
+export const AWARD_POINTS_DECLARATION: FunctionDeclaration = {
+  name: 'award_points',
+  description: 'Concede (ou remove, com valor negativo) pontos ao aluno pelo progresso demonstrado nesta mensagem.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      amount: { type: Type.INTEGER, description: 'Quantidade de pontos. Negativo para penalidade.' },
+      reason: { type: Type.STRING, description: 'Motivo curto da premiação.' },
+      category: { type: Type.STRING, enum: AWARD_CATEGORIES, description: 'Gatilho da premiação.' },
+    },
+    required: ['amount', 'reason', 'category'],
+  },
+};
+
+export const CHAT_CONFIG = {
+  systemInstruction: SYSTEM_INSTRUCTION,
+  maxOutputTokens: 2048,
+  temperature: 0.9, // Higher temp for more personality
+  tools: [{ functionDeclarations: [AWARD_POINTS_DECLARATION] }],
+  safetySettings: [
+      { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+      { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+      { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+      { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  ]
+};
+
+/**
+ * Earlier awards go back to the model as the function calls they were, each answered in the next user turn,
+ * so it knows what it already awarded. A reply may consist of awards only.
+ */
+export const buildChatContents = (history: ChatHistory, userMessage: string): Content[] => {
+  const contents: Content[] = [];
+  let responses: Part[] = [];
+  const turns = [...history, { role: 'user', parts: [{ text: userMessage }] }];
+
+  for (const turn of turns) {
+    const text = turn.parts?.[0]?.text;
+    const awards = turn.role === 'model' ? turn.awards ?? [] : [];
+    if (!text && awards.length === 0) continue;
+
+    const parts: Part[] = text ? [{ text }] : [];
+    if (turn.role === 'user') {
+      contents.push({ role: 'user', parts: [...responses, ...parts] });
+      responses = [];
+      continue;
+    }
+    awards.forEach(({ amount, reason, category }) => {
+      parts.push({ functionCall: { name: AWARD_POINTS_DECLARATION.name, args: { amount, reason, category } } });
+      responses.push({ functionResponse: { name: AWARD_POINTS_DECLARATION.name, response: { output: 'registrado' } } });
+    });
+    contents.push({ role: turn.role, parts });
+  }
+  return contents;
+};
+
+// Invalid calls are dropped instead of failing the whole reply (LiveVoice reads its tool calls with it too)
+export const toPointAward = (call: FunctionCall): PointAward | null => {
+  if (call.name !== AWARD_POINTS_DECLARATION.name) return null;
+  const args = call.args || {};
+  const amount = Math.round(Number(args.amount));
+  if (!Number.isFinite(amount) || amount === 0) return null;
+
+  const category = AWARD_CATEGORIES.includes(args.category as AwardCategory)
+    ? args.category as AwardCategory
+    : 'TASK_EXECUTION';
+  const reason = typeof args.reason === 'string' && args.reason.trim() ? args.reason.trim() : 'Progresso reconhecido';
+
+  return { amount, reason, category };
+};
+
+// Reads parts directly: `response.text` warns when function call parts are present
+export const readParts = (response: GenerateContentResponse) => {
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  const text = parts.map(p => p.text || '').join('');
+  const awards = parts
+    .map(p => p.functionCall ? toPointAward(p.functionCall) : null)
+    .filter((a): a is PointAward => a !== null);
+  return { text, awards };
+};
+
+export const assertNotEmpty = (result: MentorResponse, response: GenerateContentResponse | null) => {
+  if (!result.text && result.awards.length === 0) {
+      if (response?.candidates && response.candidates[0]?.finishReason) {
+          throw new Error(`Bloqueio de Segurança: ${response.candidates[0].finishReason}`);
+      }
+      throw new Error("Resposta vazia do modelo.");
+  }
+};
+
+export const MAP_MODEL = 'gemini-2.5-flash';
+
+export const buildMentalMapPrompt = (topic: string) => `
+      Crie um MAPA MENTAL ESTRUTURADO em formato de ÁRVORE DE TEXTO (ASCII/Tree Style) sobre: "${topic}".
+      REGRAS VISUAIS:
+      - Use caracteres ASCII para conectar: ├──, └──, │.
+      - Não use Markdown code blocks (\`\`\`), apenas o texto puro.
+      - Seja hierárquico, direto e focado em EXECUÇÃO.
+      - Limite a 3 níveis de profundidade.
+    `;
+
+export const MAP_CONFIG = {
+  safetySettings: [
+      { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+      { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+  ]
+};
@@ -0,0 +1,92 @@
+import { Achievement, ChatSession, FocusSession, LedgerEntry, MentalMapItem, PrestigeCycle, UserStats } from "../types";
+import { UserCollection } from "./storage";
+
+// Record-level merges shared by backup restore (backupService), cross-tab sync (tabSync) and cloud sync (syncService).
+// Each combine(current, incoming) is safe to apply repeatedly: merging a record with itself changes nothing.
+
+// Key order and Date identity differ between a merged copy and the stored record, so compare by content
+const canonical = (value: unknown): unknown => {
+  if (value instanceof Date) return value.getTime();
+  if (Array.isArray(value)) return value.map(canonical);
+  if (typeof value !== 'object' || value === null) return value;
+  return Object.keys(value).sort()
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .map(key => [key, canonical((value as Record<string, unknown>)[key])]);
+};
+
+export const sameRecord = (a: unknown, b: unknown) => a === b || JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+
+export const byTime = <T>(time: (item: T) => Date) => (a: T, b: T) => time(a).getTime() - time(b).getTime();
+
+export const mergeById = <T extends { id: string }>(current: T[], incoming: T[], combine: (current: T, incoming: T) => T): T[] => {
+  const merged = new Map(current.map(item => [item.id, item]));
+  for (const item of incoming) {
+    const existing = merged.get(item.id);
+    merged.set(item.id, existing ? combine(existing, item) : item);
+  }
+  return Array.from(merged.values());
+};
+
+export const mergeSession = (current: ChatSession, incoming: ChatSession): ChatSession => {
+  const newer = incoming.lastModified > current.lastModified ? incoming : current;
+  return {
+    ...newer,
+    messages: mergeById(current.messages, incoming.messages, m => m).sort(byTime(m => m.timestamp)),
+  };
+};
+
+// A reversal on either side wins: once reversed, an entry never counts again
+export const mergeLedgerEntry = (current: LedgerEntry, incoming: LedgerEntry): LedgerEntry => {
+  return current.reversedAt || !incoming.reversedAt ? current : { ...current, reversedAt: incoming.reversedAt };
+};
+
+const isOpeningBalance = (entry: LedgerEntry) => entry.source === 'system' && entry.timestamp.getTime() === 0;
+
+/**
+ * Union of both ledgers by id. Opening balances (legacy counters turned into one entry) have random ids,
+ * so two of them would count the same legacy points twice; only the larger one is kept.
+ */
+export const mergeLedgers = (current: LedgerEntry[], incoming: LedgerEntry[]): LedgerEntry[] => {
+  const merged = mergeById(current, incoming, mergeLedgerEntry);
+  const openings = merged.filter(isOpeningBalance);
+  const keptOpening = openings.reduce<LedgerEntry | null>((max, e) => !max || e.amount > max.amount ? e : max, null);
+  return merged
+    .filter(e => !isOpeningBalance(e) || e === keptOpening)
+    .sort(byTime(e => e.timestamp));
+};
+
+export const mergeAchievements = (current: Achievement[], incoming: Achievement[]): Achievement[] => {
+  return mergeById(current, incoming, (a, b) => a.unlockedAt <= b.unlockedAt ? a : b);
+};
+
+export const mergePrestigeHistory = (current: PrestigeCycle[], incoming: PrestigeCycle[]): PrestigeCycle[] => {
+  const merged = new Map(current.map(c => [c.cycle, c]));
+  incoming.forEach(c => { if (!merged.has(c.cycle)) merged.set(c.cycle, c); });
+  return Array.from(merged.values()).sort((a, b) => a.cycle - b.cycle);
+};
+
+/**
+ * Counters that cannot be derived from the ledger (voice sessions, best streak) keep the highest value;
+ * achievements and prestige cycles are unioned. Points, level and streak are left to the caller to derive.
+ */
+export const mergeStats = (current: UserStats, incoming: UserStats): UserStats => {
+  const prestigeHistory = mergePrestigeHistory(current.prestigeHistory, incoming.prestigeHistory);
+  return {
+    ...current,
+    bestStreak: Math.max(current.bestStreak, incoming.bestStreak),
+    voiceSessions: Math.max(current.voiceSessions, incoming.voiceSessions),
+    achievements: mergeAchievements(current.achievements, incoming.achievements),
+    prestige: prestigeHistory.length,
+    prestigeHistory,
+  };
+};
+
+/** How two copies of the same record are combined, per collection (tab and cloud sync). */
+export const RECORD_MERGES = {
+  sessions: mergeSession,
+  maps: (_current: MentalMapItem, incoming: MentalMapItem) => incoming,
+  stats: mergeStats,
+  ledger: mergeLedgerEntry,
+  // Focus sessions are never edited after the post-check
+  focus: (_current: FocusSession, incoming: FocusSession) => incoming,
+} satisfies Record<UserCollection, (current: any, incoming: any) => unknown>;
@@ -0,0 +1,76 @@
+// Salted PBKDF2 hashing for the local credential store (Web Crypto only, no dependencies).
+
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+export interface PasswordHash {
+  hash: string; // base64
+  salt: string; // base64
+  iterations: number;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (b64: string) => {
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const derive = async (password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return new Uint8Array(bits);
+};
+
+/** Compares every byte regardless of where the first mismatch is. */
+export const timingSafeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  let diff = a.length ^ b.length;
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+};
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return { hash: toBase64(hash), salt: toBase64(salt), iterations: ITERATIONS };
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  const hash = await derive(password, fromBase64(stored.salt), stored.iterations);
+  return timingSafeEqual(hash, fromBase64(stored.hash));
+};
+
+/** Only used to check legacy plaintext records before migrating them. */
+export const verifyPlaintext = (password: string, stored: string): boolean => {
+  const encoder = new TextEncoder();
+  return timingSafeEqual(encoder.encode(password), encoder.encode(stored));
+};
+
+// --- Recovery codes (local accounts) ---
+
+// No 0/O, 1/I: the code is meant to be copied by hand
+const RECOVERY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const RECOVERY_LENGTH = 16;
+
+/** Random code shown once at registration, formatted as XXXX-XXXX-XXXX-XXXX (80 bits). Store only its hash. */
+export const generateRecoveryCode = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_LENGTH));
+  const chars = Array.from(bytes, b => RECOVERY_ALPHABET[b % RECOVERY_ALPHABET.length]).join('');
+  return chars.match(/.{4}/g)!.join('-');
+};
+
+/** Accepts the code typed with any case, spaces or dashes. */
+export const normalizeRecoveryCode = (code: string): string => {
+  const chars = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return chars.match(/.{1,4}/g)?.join('-') ?? '';
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_POINTS } from '../constants';
+import { RANKS, canPrestige, getEmblemStage, getLevel, getNextRank, getRank, getRankProgress } from './progressionService';
+
+const ALL_POINTS = Array.from({ length: MAX_POINTS + 1 }, (_, points) => points);
+
+describe('RANKS', () => {
+  it('has 7 ranks ordered by threshold, from 0 to MAX_POINTS', () => {
+    expect(RANKS).toHaveLength(7);
+    expect(RANKS[0].points).toBe(0);
+    expect(RANKS[RANKS.length - 1].points).toBe(MAX_POINTS);
+    RANKS.slice(1).forEach((rank, i) => {
+      expect(rank.points).toBeGreaterThan(RANKS[i].points);
+      expect(rank.stage).toBeGreaterThanOrEqual(RANKS[i].stage);
+    });
+  });
+});
+
+describe('rank helpers from 0 to MAX_POINTS', () => {
+  it('agree with each other at every point', () => {
+    for (const points of ALL_POINTS) {
+      const rank = getRank(points);
+      const index = RANKS.indexOf(rank);
+      const next = getNextRank(points);
+
+      expect(rank.points).toBeLessThanOrEqual(points);
+      expect(next).toBe(RANKS[index + 1] ?? null);
+      if (next) expect(next.points).toBeGreaterThan(points);
+      expect(getEmblemStage(points)).toBe(rank.stage);
+
+      const progress = getRankProgress(points);
+      expect(progress).toBeGreaterThanOrEqual(0);
+      if (next) expect(progress).toBeLessThan(100);
+      else expect(progress).toBe(100);
+    }
+  });
+
+  it('never move backwards as points grow', () => {
+    ALL_POINTS.slice(1).forEach(points => {
+      expect(RANKS.indexOf(getRank(points))).toBeGreaterThanOrEqual(RANKS.indexOf(getRank(points - 1)));
+      expect(getEmblemStage(points)).toBeGreaterThanOrEqual(getEmblemStage(points - 1));
+      expect(getLevel(points)).toBeGreaterThanOrEqual(getLevel(points - 1));
+    });
+  });
+});
+
+describe('rank boundaries', () => {
+  it.each(RANKS.map((rank, i) => [rank.label, rank.points, i] as const))('%s starts exactly at %i points', (_, threshold, i) => {
+    const rank = RANKS[i];
+    expect(getRank(threshold)).toBe(rank);
+    expect(getEmblemStage(threshold)).toBe(rank.stage);
+    expect(getNextRank(threshold)).toBe(RANKS[i + 1] ?? null);
+    expect(getRankProgress(threshold)).toBe(i === RANKS.length - 1 ? 100 : 0);
+
+    if (i > 0) {
+      const previous = RANKS[i - 1];
+      expect(getRank(threshold - 1)).toBe(previous);
+      expect(getEmblemStage(threshold - 1)).toBe(previous.stage);
+      expect(getNextRank(threshold - 1)).toBe(rank);
+      expect(getRankProgress(threshold - 1)).toBeCloseTo(((threshold - 1 - previous.points) / (threshold - previous.points)) * 100);
+    }
+  });
+});
+
+describe('at and past MAX_POINTS', () => {
+  it.each([MAX_POINTS, MAX_POINTS + 1, MAX_POINTS * 2])('stays at the last rank with %i points', points => {
+    const last = RANKS[RANKS.length - 1];
+    expect(getRank(points)).toBe(last);
+    expect(getEmblemStage(points)).toBe(5);
+    expect(getNextRank(points)).toBeNull();
+    expect(getRankProgress(points)).toBe(100);
+    expect(canPrestige(points)).toBe(true);
+  });
+
+  it('only allows prestige from MAX_POINTS on', () => {
+    expect(canPrestige(MAX_POINTS - 1)).toBe(false);
+  });
+});
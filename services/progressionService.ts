@@ -0,0 +1,92 @@
+import { MAX_POINTS } from "../constants";
+import { PrestigeCycle } from "../types";
+
+// Single source of truth for ranks, levels and emblem visuals.
+// The sidebar, EagleEmblem and ProgressionModal all read from here so they can never disagree.
+
+export type EmblemStage = 1 | 2 | 3 | 4 | 5;
+
+export interface Rank {
+  points: number; // Threshold to reach this rank
+  label: string;
+  desc: string;
+  stage: EmblemStage;
+}
+
+export interface EmblemColors {
+  fill: string;
+  stroke: string;
+}
+
+const POINTS_PER_LEVEL = 500;
+
+// Ordered by threshold; the last entry must sit at MAX_POINTS
+export const RANKS: Rank[] = [
+  { points: 0, label: 'Início', desc: 'A Origem', stage: 1 },
+  { points: 500, label: 'Despertar', desc: '1ª Quebra', stage: 2 },
+  { points: 1000, label: 'Consistência', desc: 'Disciplina', stage: 2 },
+  { points: 2500, label: 'Aprendiz', desc: 'Expansão', stage: 3 },
+  { points: 5000, label: 'Praticante', desc: 'Domínio', stage: 4 },
+  { points: 7500, label: 'Dominante', desc: 'Autoridade', stage: 4 },
+  { points: MAX_POINTS, label: 'Lenda', desc: 'O Código', stage: 5 },
+];
+
+// Progressive glow per stage
+export const EMBLEM_COLORS: Record<EmblemStage, EmblemColors> = {
+  1: { fill: "#333", stroke: "#555" }, // Stone
+  2: { fill: "#444", stroke: "#9FB4C7" }, // Iron/Azure
+  3: { fill: "#1a0b0b", stroke: "#E50914" }, // Blood
+  4: { fill: "#2a0a0a", stroke: "#ff4d4d" }, // Crimson
+  5: { fill: "#1a1a00", stroke: "#FFD700" }, // Gold
+};
+
+export const LOCKED_EMBLEM_COLORS: EmblemColors = { fill: "#1a1a1a", stroke: "#333" };
+
+export const getRank = (points: number): Rank => {
+  let current = RANKS[0];
+  for (const rank of RANKS) {
+    if (points >= rank.points) current = rank;
+  }
+  return current;
+};
+
+export const getNextRank = (points: number): Rank | null => {
+  return RANKS.find(r => r.points > points) || null;
+};
+
+export const getEmblemStage = (points: number): EmblemStage => getRank(points).stage;
+
+export const getLevel = (points: number) => Math.floor(Math.max(0, points) / POINTS_PER_LEVEL) + 1;
+
+/** Percentage (0-100) travelled between the current rank and the next one. */
+export const getRankProgress = (points: number) => {
+  const current = getRank(points);
+  const next = getNextRank(points);
+  if (!next) return 100;
+  return ((points - current.points) / (next.points - current.points)) * 100;
+};
+
+export const canPrestige = (points: number) => points >= MAX_POINTS;
+
+/** The current cycle starts right after the last completed one. */
+export const getCycleStart = (history: PrestigeCycle[]): Date | undefined => {
+  return history.length > 0 ? history[history.length - 1].completedAt : undefined;
+};
+
+export const completeCycle = (history: PrestigeCycle[], points: number): PrestigeCycle[] => [
+  ...history,
+  {
+    cycle: history.length + 1,
+    startedAt: getCycleStart(history),
+    completedAt: new Date(),
+    points,
+  },
+];
+
+export const hydratePrestigeHistory = (history: PrestigeCycle[]): PrestigeCycle[] => {
+  return history.map(c => ({
+    ...c,
+    startedAt: c.startedAt ? new Date(c.startedAt) : undefined,
+    completedAt: new Date(c.completedAt),
+  }));
+};
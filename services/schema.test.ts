@@ -0,0 +1,169 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMemoryStorage } from './memoryStorage';
+import { SCHEMA_VERSION, loadUserData } from './schema';
+import { StorageBackend, UserCollection } from './storage';
+
+const USER = 'u1';
+
+// What App.tsx kept in localStorage, copied as-is: ISO dates, stats without the ledger counters, no ledger
+const V1_ACCOUNT = {
+  sessions: [{
+    id: 's1',
+    title: 'Plano da semana',
+    lastModified: '2024-03-02T10:00:00.000Z',
+    messages: [
+      { id: 'm1', role: 'user', text: 'Qual o plano?', timestamp: '2024-03-02T09:59:00.000Z' },
+      { id: 'm2', role: 'model', text: 'Executar.', timestamp: '2024-03-02T10:00:00.000Z' },
+    ],
+  }],
+  maps: [{ id: 'map1', topic: 'Foco', content: 'Foco\n└── Entregar', createdAt: '2024-03-01T08:00:00.000Z' }],
+  stats: {
+    userId: USER,
+    points: 120,
+    level: 2,
+    streak: 3,
+    achievements: [{ id: 'first-blood', unlockedAt: '2024-03-01T08:00:00.000Z' }],
+  },
+  focus: [{
+    id: 'f1',
+    deliverable: 'Relatório',
+    mode: 'FOCUS',
+    plannedMs: 1500000,
+    focusMs: 1500000,
+    pauses: 0,
+    outcome: 'EXECUTED',
+    startedAt: '2024-03-02T08:00:00.000Z',
+    endedAt: '2024-03-02T08:25:00.000Z',
+  }],
+};
+
+const seed = async (records: Partial<Record<UserCollection, unknown[]>>, stats?: object) => {
+  const storage = createMemoryStorage();
+  for (const [collection, list] of Object.entries(records)) {
+    await storage.write(USER, collection as UserCollection, { put: list.map(r => [(r as { id: string }).id, r]) });
+  }
+  if (stats) await storage.put(USER, 'stats', 'current', stats);
+  return storage;
+};
+
+const seedV1 = () => seed({ sessions: V1_ACCOUNT.sessions, maps: V1_ACCOUNT.maps, focus: V1_ACCOUNT.focus }, V1_ACCOUNT.stats);
+
+const versions = async (storage: StorageBackend) =>
+  Object.fromEntries((await storage.list<{ collection: string, version: number }>(USER, 'meta')).map(m => [m.collection, m.version]));
+
+describe('loadUserData', () => {
+  it('revives the dates of a version 1 account', async () => {
+    const { data, quarantined } = await loadUserData(await seedV1(), USER);
+    expect(quarantined).toBe(0);
+
+    const [session] = data.sessions;
+    expect(session.lastModified).toEqual(new Date('2024-03-02T10:00:00.000Z'));
+    expect(session.messages.map(m => m.timestamp)).toEqual([new Date('2024-03-02T09:59:00.000Z'), new Date('2024-03-02T10:00:00.000Z')]);
+    expect(data.maps[0].createdAt).toBeInstanceOf(Date);
+    expect(data.stats.achievements[0].unlockedAt).toEqual(new Date('2024-03-01T08:00:00.000Z'));
+    expect(data.focus[0].startedAt).toEqual(new Date('2024-03-02T08:00:00.000Z'));
+    expect(data.focus[0].endedAt).toBeInstanceOf(Date);
+  });
+
+  it('fills in the stats counters that are missing', async () => {
+    const { data } = await loadUserData(await seedV1(), USER);
+    expect(data.stats).toMatchObject({
+      userId: USER,
+      points: 120,
+      level: 2,
+      streak: 3,
+      lifetimePoints: 0,
+      bestStreak: 0,
+      voiceSessions: 0,
+      prestige: 0,
+      prestigeHistory: [],
+    });
+  });
+
+  it('opens the ledger with the points the account already had', async () => {
+    const storage = await seedV1();
+    const { data } = await loadUserData(storage, USER);
+
+    expect(data.ledger).toHaveLength(1);
+    expect(data.ledger[0]).toMatchObject({ amount: 120, source: 'system', timestamp: new Date(0) });
+    expect(await storage.list(USER, 'ledger')).toEqual(data.ledger);
+  });
+
+  it('writes the migrated records back and stamps every collection once', async () => {
+    const storage = await seedV1();
+    const first = await loadUserData(storage, USER);
+    expect(await versions(storage)).toEqual({ sessions: SCHEMA_VERSION, maps: SCHEMA_VERSION, stats: SCHEMA_VERSION, ledger: SCHEMA_VERSION, focus: SCHEMA_VERSION });
+    expect((await storage.get<{ lastModified: unknown }>(USER, 'sessions', 's1'))?.lastModified).toBeInstanceOf(Date);
+
+    // Already at SCHEMA_VERSION: nothing is migrated again, so no second opening balance
+    const second = await loadUserData(storage, USER);
+    expect(second.data.ledger).toEqual(first.data.ledger);
+  });
+
+  it('does not open a ledger for accounts without points', async () => {
+    const { data } = await loadUserData(await seed({}, { userId: USER, points: 0 }), USER);
+    expect(data.ledger).toEqual([]);
+  });
+
+  it('quarantines invalid records and keeps the valid ones', async () => {
+    const storage = await seed({
+      sessions: [...V1_ACCOUNT.sessions, { id: 's2', title: 'Corrompida', lastModified: 'ontem', messages: 'nada' }],
+      maps: [...V1_ACCOUNT.maps, { id: 'map2', content: 'sem tópico', createdAt: '2024-03-01T08:00:00.000Z' }],
+    }, V1_ACCOUNT.stats);
+
+    const { data, quarantined } = await loadUserData(storage, USER);
+    expect(quarantined).toBe(2);
+    expect(data.sessions.map(s => s.id)).toEqual(['s1']);
+    expect(data.maps.map(m => m.id)).toEqual(['map1']);
+
+    // Moved, not lost
+    expect(await storage.get(USER, 'maps', 'map2')).toBeUndefined();
+    const quarantine = await storage.list<{ collection: string, record: { id: string }, issues: string[] }>(USER, 'quarantine');
+    expect(quarantine.map(q => [q.collection, q.record.id]).sort()).toEqual([['maps', 'map2'], ['sessions', 's2']]);
+    expect(quarantine.find(q => q.record.id === 'map2')?.issues).toEqual(['maps.topic inválido']);
+    expect(quarantine.find(q => q.record.id === 's2')?.issues).toEqual(expect.arrayContaining(['sessions.lastModified inválido', 'sessions.messages inválido']));
+  });
+
+  it('keeps every quarantined copy of a record that turns up invalid again', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const invalid = { id: 'map2', content: 'sem tópico', createdAt: '2024-03-01T08:00:00.000Z' };
+      const storage = await seed({ maps: [invalid] });
+      vi.setSystemTime(new Date('2024-03-02T08:00:00.000Z'));
+      await loadUserData(storage, USER);
+
+      await storage.write(USER, 'maps', { put: [['map2', { ...invalid, content: 'outra versão' }]] });
+      vi.setSystemTime(new Date('2024-03-03T08:00:00.000Z'));
+      expect((await loadUserData(storage, USER)).quarantined).toBe(1);
+
+      const quarantine = await storage.list<{ record: { id: string, content: string } }>(USER, 'quarantine');
+      expect(quarantine.map(q => q.record.content).sort()).toEqual(['outra versão', 'sem tópico']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('quarantines ledger entries that are not valid anymore', async () => {
+    const storage = await seed({ ledger: [{ id: 'e1', amount: 'dez', reason: 'Entrega', source: 'chat', timestamp: '2024-03-01T08:00:00.000Z' }] });
+    const { data, quarantined } = await loadUserData(storage, USER);
+    expect(quarantined).toBe(1);
+    expect(data.ledger).toEqual([]);
+  });
+
+  it('refuses collections stamped by a newer version of the app', async () => {
+    const storage = await seedV1();
+    await storage.put(USER, 'meta', 'maps', { collection: 'maps', version: SCHEMA_VERSION + 1, migratedAt: new Date() });
+
+    await expect(loadUserData(storage, USER)).rejects.toThrow('Os dados (maps) foram salvos por uma versão mais nova do app.');
+    // Nothing was rewritten by the failed load
+    expect((await storage.get<{ lastModified: unknown }>(USER, 'sessions', 's1'))?.lastModified).toBe('2024-03-02T10:00:00.000Z');
+  });
+
+  it('always returns at least one session', async () => {
+    const storage = createMemoryStorage();
+    const { data } = await loadUserData(storage, USER);
+    expect(data.sessions).toHaveLength(1);
+    expect(data.stats).toMatchObject({ userId: USER, points: 0 });
+    expect(await storage.list(USER, 'sessions')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,308 @@
+import { ChatSession, FocusSession, LedgerEntry, MentalMapItem, UserStats } from "../types";
+import { INITIAL_MESSAGE } from "../constants";
+import { createOpeningBalance } from "./ledgerService";
+import { STATS_RECORD_ID, StorageBackend, USER_COLLECTIONS, UserCollection, readUserCollections } from "./storage";
+import type { UserDataSnapshot } from "./backupService";
+
+/**
+ * Version of the stored record shapes. Each collection is stamped (one `meta` record per collection)
+ * with the version its records were last migrated to; collections without a stamp are version 1.
+ *
+ * 1. What App.tsx kept in localStorage, copied as-is into IndexedDB: dates as ISO strings,
+ *    stats without the counters added along with the ledger, accounts without a ledger.
+ * 2. Dates as Date objects, stats with every field, a ledger for every account that had points.
+ *    The focus log was added at this version; its version 1 is the JSON shape the backend returns.
+ */
+export const SCHEMA_VERSION = 2;
+
+interface SchemaMeta {
+  collection: UserCollection;
+  version: number;
+  migratedAt: Date;
+}
+
+interface QuarantinedRecord {
+  collection: UserCollection;
+  record: unknown;
+  issues: string[];
+  quarantinedAt: Date;
+}
+
+// --- Defaults ---
+
+export const createDefaultStats = (userId: string): UserStats => ({
+  userId,
+  points: 0,
+  lifetimePoints: 0,
+  level: 1,
+  streak: 0,
+  bestStreak: 0,
+  achievements: [],
+  voiceSessions: 0,
+  prestige: 0,
+  prestigeHistory: []
+});
+
+export const createInitialSession = (): ChatSession => ({
+  id: Date.now().toString(),
+  title: 'Sessão Inicial',
+  messages: [{ id: 'init', role: 'model', text: INITIAL_MESSAGE, timestamp: new Date() }],
+  lastModified: new Date()
+});
+
+// --- Validation ---
+
+export const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+export const isDateLike = (value: unknown) => value instanceof Date
+  ? !isNaN(value.getTime())
+  : (typeof value === 'string' || typeof value === 'number') && !isNaN(new Date(value).getTime());
+export const isString = (value: unknown) => typeof value === 'string';
+
+type FieldRule = [field: string, check: (value: any) => boolean, optional?: boolean];
+
+export const checkRecord = (issues: string[], path: string, value: unknown, rules: FieldRule[]) => {
+  if (!isObject(value)) {
+    issues.push(`${path} não é um objeto`);
+    return;
+  }
+  for (const [field, check, optional] of rules) {
+    if (value[field] === undefined && optional) continue;
+    if (!check(value[field])) issues.push(`${path}.${field} inválido`);
+  }
+};
+
+const checkList = (issues: string[], path: string, value: unknown, rules: FieldRule[]) => {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    issues.push(`${path} não é uma lista`);
+    return;
+  }
+  value.forEach((item, i) => checkRecord(issues, `${path}[${i}]`, item, rules));
+};
+
+const MESSAGE_RULES: FieldRule[] = [
+  ['id', isString],
+  ['role', v => v === 'user' || v === 'model'],
+  ['text', isString],
+  ['timestamp', isDateLike],
+  ['awards', v => Array.isArray(v), true],
+];
+
+const RECORD_RULES: Record<UserCollection, FieldRule[]> = {
+  sessions: [
+    ['id', isString],
+    ['title', isString],
+    ['lastModified', isDateLike],
+    ['messages', v => Array.isArray(v)],
+  ],
+  maps: [
+    ['id', isString],
+    ['topic', isString],
+    ['content', isString],
+    ['createdAt', isDateLike],
+  ],
+  ledger: [
+    ['id', isString],
+    ['amount', Number.isFinite],
+    ['reason', isString],
+    ['source', v => ['chat', 'timer', 'voice', 'system'].includes(v)],
+    ['timestamp', isDateLike],
+    ['reversedAt', isDateLike, true],
+  ],
+  stats: [
+    ['points', Number.isFinite, true],
+    ['voiceSessions', Number.isFinite, true],
+    ['bestStreak', Number.isFinite, true],
+    ['achievements', v => Array.isArray(v), true],
+    ['prestigeHistory', v => Array.isArray(v), true],
+  ],
+  focus: [
+    ['id', isString],
+    ['deliverable', isString],
+    ['mode', v => ['FOCUS', 'BREAK', 'FREE'].includes(v)],
+    ['plannedMs', Number.isFinite],
+    ['focusMs', Number.isFinite],
+    ['pauses', Number.isFinite],
+    ['laps', v => Array.isArray(v), true],
+    ['outcome', v => v === 'EXECUTED' || v === 'FAILED'],
+    ['startedAt', isDateLike],
+    ['endedAt', isDateLike],
+  ],
+};
+
+/** Adds to `issues` what is wrong with one record of a collection (for sessions, their messages too). */
+export const checkCollectionRecord = (issues: string[], collection: UserCollection, path: string, value: unknown) => {
+  checkRecord(issues, path, value, RECORD_RULES[collection]);
+  if (collection === 'sessions' && Array.isArray((value as ChatSession | undefined)?.messages)) {
+    checkList(issues, `${path}.messages`, (value as ChatSession).messages, MESSAGE_RULES);
+  }
+};
+
+// --- Migrations ---
+
+interface MigrationContext {
+  userId: string;
+  // Counter of the stored stats, the only trace of the points of accounts that predate the ledger
+  savedPoints: number;
+}
+
+// Upgrades every record of a collection by one version. Records may be malformed (validation runs
+// afterwards), so a step only touches what has the expected type and leaves the rest for validation.
+type Migration = (records: unknown[], context: MigrationContext) => unknown[];
+
+const toDate = (value: unknown) => typeof value === 'string' || typeof value === 'number' ? new Date(value) : value;
+
+const mapObjects = (records: unknown[], update: (record: Record<string, any>) => unknown): unknown[] =>
+  records.map(r => isObject(r) ? update(r) : r);
+
+// Lists inside a record: anything but an array is kept as-is for validation to report
+const mapNested = (value: unknown, update: (record: Record<string, any>) => unknown) =>
+  Array.isArray(value) ? mapObjects(value, update) : value;
+
+/** MIGRATIONS[collection][n] upgrades records from version n to n + 1. */
+const MIGRATIONS: Record<UserCollection, Record<number, Migration>> = {
+  sessions: {
+    1: records => mapObjects(records, s => ({
+      ...s,
+      lastModified: toDate(s.lastModified),
+      messages: mapNested(s.messages, m => ({ ...m, timestamp: toDate(m.timestamp) })),
+    })),
+  },
+  maps: {
+    1: records => mapObjects(records, m => ({ ...m, createdAt: toDate(m.createdAt) })),
+  },
+  stats: {
+    1: (records, { userId }) => mapObjects(records, s => ({
+      ...createDefaultStats(userId),
+      ...s,
+      achievements: mapNested(s.achievements ?? [], a => ({ ...a, unlockedAt: toDate(a.unlockedAt) })),
+      prestigeHistory: mapNested(s.prestigeHistory ?? [], c => ({
+        ...c,
+        startedAt: c.startedAt ? toDate(c.startedAt) : undefined,
+        completedAt: toDate(c.completedAt),
+      })),
+    })),
+  },
+  ledger: {
+    1: (records, { savedPoints }) => records.length > 0
+      ? mapObjects(records, e => ({
+          ...e,
+          timestamp: toDate(e.timestamp),
+          reversedAt: e.reversedAt ? toDate(e.reversedAt) : undefined,
+        }))
+      : createOpeningBalance(savedPoints),
+  },
+  focus: {
+    1: records => mapObjects(records, s => ({ ...s, startedAt: toDate(s.startedAt), endedAt: toDate(s.endedAt) })),
+  },
+};
+
+const upgradeRecords = (collection: UserCollection, records: unknown[], from: number, context: MigrationContext): unknown[] => {
+  let upgraded = records;
+  for (let version = from; version < SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[collection][version];
+    if (migrate) upgraded = migrate(upgraded, context);
+  }
+  return upgraded;
+};
+
+/**
+ * Records that went through JSON (the backend's copy) are shaped like version 1: the migrations revive
+ * their dates and defaults. Records that still fail validation are dropped with a warning.
+ */
+export const decodeRecords = (collection: UserCollection, records: unknown[], userId: string): unknown[] => {
+  return upgradeRecords(collection, records, 1, { userId, savedPoints: 0 }).filter(record => {
+    const issues: string[] = [];
+    checkCollectionRecord(issues, collection, collection, record);
+    if (issues.length > 0) console.warn(`Registro remoto inválido em ${collection} ignorado.`, issues);
+    return issues.length === 0;
+  });
+};
+
+// --- Loading ---
+
+const recordId = (collection: UserCollection, record: unknown): string | undefined => {
+  if (collection === 'stats') return STATS_RECORD_ID;
+  return isObject(record) && typeof record.id === 'string' ? record.id : undefined;
+};
+
+export interface LoadedUserData {
+  data: UserDataSnapshot;
+  /** Records moved to quarantine by this load. */
+  quarantined: number;
+}
+
+/**
+ * Reads the user's data and brings it to SCHEMA_VERSION: older collections are migrated step by step,
+ * written back and stamped. Records that fail validation are moved to the `quarantine` collection
+ * (kept, and included in the export) instead of breaking the app or being lost.
+ * The result always has at least one session, so the loading screen cannot get stuck.
+ */
+export const loadUserData = async (storage: StorageBackend, userId: string): Promise<LoadedUserData> => {
+  const [saved, meta] = await Promise.all([
+    readUserCollections(storage, userId),
+    storage.list<SchemaMeta>(userId, 'meta'),
+  ]);
+  const versions = new Map(meta.map(m => [m.collection, m.version]));
+  const context: MigrationContext = { userId, savedPoints: Number(saved.stats?.points) || 0 };
+  const stored: Record<UserCollection, unknown[]> = {
+    sessions: saved.sessions,
+    maps: saved.maps,
+    stats: saved.stats ? [saved.stats] : [],
+    ledger: saved.ledger,
+    focus: saved.focus,
+  };
+  const loaded = {} as Record<UserCollection, unknown[]>;
+  let quarantined = 0;
+
+  // Checked before anything is migrated, so an older app never rewrites part of the data
+  const newer = USER_COLLECTIONS.find(collection => (versions.get(collection) ?? 1) > SCHEMA_VERSION);
+  if (newer) throw new Error(`Os dados (${newer}) foram salvos por uma versão mais nova do app.`);
+
+  for (const collection of USER_COLLECTIONS) {
+    const from = versions.get(collection) ?? 1;
+    const valid: unknown[] = [];
+    const rejected: Array<[id: string, value: QuarantinedRecord]> = [];
+    const invalidIds: string[] = [];
+    upgradeRecords(collection, stored[collection], from, context).forEach((record, i) => {
+      const issues: string[] = [];
+      checkCollectionRecord(issues, collection, collection, record);
+      if (issues.length === 0) {
+        valid.push(record);
+        return;
+      }
+      const id = recordId(collection, record);
+      if (id) invalidIds.push(id);
+      // Keyed by time too: a record quarantined again in a later load must not replace its earlier copy
+      const quarantinedAt = new Date();
+      rejected.push([`${collection}:${id ?? `#${i}`}:${quarantinedAt.getTime()}`, { collection, record, issues, quarantinedAt }]);
+    });
+
+    // Quarantine first: if the load is interrupted, a record may exist twice but is never lost
+    if (rejected.length > 0) {
+      console.warn(`${rejected.length} registro(s) inválido(s) em ${collection} movido(s) para a quarentena.`, rejected.map(([, q]) => q.issues));
+      await storage.write(userId, 'quarantine', { put: rejected });
+      await storage.write(userId, collection, { delete: invalidIds });
+      quarantined += rejected.length;
+    }
+    if (from < SCHEMA_VERSION) {
+      await storage.write(userId, collection, { put: valid.map(r => [recordId(collection, r)!, r]) });
+      await storage.put<SchemaMeta>(userId, 'meta', collection, { collection, version: SCHEMA_VERSION, migratedAt: new Date() });
+    }
+    loaded[collection] = valid;
+  }
+
+  const data: UserDataSnapshot = {
+    sessions: loaded.sessions as ChatSession[],
+    maps: loaded.maps as MentalMapItem[],
+    stats: (loaded.stats[0] as UserStats | undefined) ?? createDefaultStats(userId),
+    ledger: loaded.ledger as LedgerEntry[],
+    focus: loaded.focus as FocusSession[],
+  };
+  if (data.sessions.length === 0) {
+    const session = createInitialSession();
+    await storage.put(userId, 'sessions', session.id, session);
+    data.sessions = [session];
+  }
+  return { data, quarantined };
+};
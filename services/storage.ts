@@ -0,0 +1,164 @@
+import { ChatSession, FocusSession, LedgerEntry, MentalMapItem, UserStats } from "../types";
+import { createIndexedDbStorage } from "./indexedDbStorage";
+import { createMemoryStorage } from "./memoryStorage";
+
+// Same collection names as the backend (server/store.ts)
+export const USER_COLLECTIONS = ['sessions', 'maps', 'stats', 'ledger', 'focus'] as const;
+export type UserCollection = typeof USER_COLLECTIONS[number];
+
+/** `stats` holds a single record under this id. */
+export const STATS_RECORD_ID = 'current';
+
+// Bookkeeping collections next to the user data: schema versions (services/schema.ts), records that failed
+// validation, the cloud sync state (services/syncService.ts) and the running timer (services/timerService.ts)
+export type StoredCollection = UserCollection | 'meta' | 'quarantine' | 'sync' | 'timer';
+
+export interface StorageChanges {
+  put?: Array<[id: string, value: unknown]>;
+  delete?: string[];
+}
+
+/**
+ * Per-record persistence of user data. Records are addressed by (userId, collection, id);
+ * `list` order is unspecified, callers sort.
+ */
+export interface StorageBackend {
+  get<T>(userId: string, collection: StoredCollection, id: string): Promise<T | undefined>;
+  list<T>(userId: string, collection: StoredCollection): Promise<T[]>;
+  put<T>(userId: string, collection: StoredCollection, id: string, value: T): Promise<void>;
+  delete(userId: string, collection: StoredCollection, id: string): Promise<void>;
+  /** Applies several puts and deletes together (a single IndexedDB transaction). */
+  write(userId: string, collection: StoredCollection, changes: StorageChanges): Promise<void>;
+  /** Removes every record of the user. */
+  clear(userId: string): Promise<void>;
+}
+
+let storagePromise: Promise<StorageBackend> | null = null;
+
+/**
+ * Shared storage instance: IndexedDB when the browser allows it, otherwise an in-memory store
+ * (data then only lives until the tab closes, which beats not starting at all).
+ */
+export const getStorage = (): Promise<StorageBackend> => {
+  if (!storagePromise) {
+    storagePromise = createIndexedDbStorage().catch((e) => {
+      console.error("IndexedDB indisponível, usando armazenamento temporário em memória.", e);
+      return createMemoryStorage();
+    });
+  }
+  return storagePromise;
+};
+
+// --- Legacy localStorage data ---
+
+// Before this storage layer, App.tsx kept each collection as one JSON array under these keys
+export const legacyKey = (userId: string, collection: UserCollection) => `mentor_data_${userId}_${collection}`;
+
+/**
+ * One-time move of the `mentor_data_<userId>_*` keys into the storage backend.
+ * Keys are removed only after their records were written, so an interrupted migration simply runs again.
+ */
+export const migrateLegacyData = async (storage: StorageBackend, userId: string): Promise<void> => {
+  for (const collection of USER_COLLECTIONS) {
+    const key = legacyKey(userId, collection);
+    const raw = localStorage.getItem(key);
+    if (raw === null) continue;
+
+    let data: any;
+    try {
+      data = JSON.parse(raw);
+    } catch (e) {
+      console.error(`Dados legados ilegíveis em ${key}; mantidos no localStorage.`, e);
+      continue;
+    }
+
+    if (collection === 'stats') {
+      if (data) await storage.put(userId, 'stats', STATS_RECORD_ID, data);
+    } else if (Array.isArray(data)) {
+      await storage.write(userId, collection, { put: data.filter(r => r?.id).map(r => [r.id, r]) });
+    }
+    localStorage.removeItem(key);
+  }
+};
+
+export interface UserCollections {
+  sessions: ChatSession[];
+  maps: MentalMapItem[];
+  stats?: Partial<UserStats>;
+  ledger: LedgerEntry[];
+  focus: FocusSession[];
+}
+
+// Tolerates malformed records: they are sorted first and dealt with by validation afterwards
+const time = (value: Date | string | undefined) => (value && new Date(value).getTime()) || 0;
+
+/**
+ * Reads every collection of a user, in the order the app displays them:
+ * sessions by creation (first message), maps newest first, ledger and focus log chronological.
+ */
+export const readUserCollections = async (storage: StorageBackend, userId: string): Promise<UserCollections> => {
+  const [sessions, maps, stats, ledger, focus] = await Promise.all([
+    storage.list<ChatSession>(userId, 'sessions'),
+    storage.list<MentalMapItem>(userId, 'maps'),
+    storage.get<Partial<UserStats>>(userId, 'stats', STATS_RECORD_ID),
+    storage.list<LedgerEntry>(userId, 'ledger'),
+    storage.list<FocusSession>(userId, 'focus'),
+  ]);
+  return {
+    sessions: sessions.sort((a, b) => time(a.messages?.[0]?.timestamp ?? a.lastModified) - time(b.messages?.[0]?.timestamp ?? b.lastModified)),
+    maps: maps.sort((a, b) => time(b.createdAt) - time(a.createdAt)),
+    stats,
+    ledger: ledger.sort((a, b) => time(a.timestamp) - time(b.timestamp)),
+    focus: focus.sort((a, b) => time(a.startedAt) - time(b.startedAt)),
+  };
+};
+
+// --- Incremental writes ---
+
+export interface CollectionWriter<T> {
+  /** Marks records as already stored (just loaded), so they are not written back. */
+  prime(records: T[]): void;
+  /**
+   * Persists the new state of the collection: only records whose object identity changed are put,
+   * records that disappeared are deleted. Writes are queued in order.
+   */
+  write(records: T[]): Promise<void>;
+  /** Records another tab already stored (see services/tabSync.ts): neither written back nor deleted. */
+  markStored(records: T[], deletedIds?: string[]): void;
+}
+
+export const createCollectionWriter = <T>(
+  storage: StorageBackend,
+  userId: string,
+  collection: UserCollection,
+  getId: (record: T) => string,
+  onWritten?: (changes: StorageChanges) => void
+): CollectionWriter<T> => {
+  let persisted = new Map<string, T>();
+  let queue: Promise<void> = Promise.resolve();
+
+  return {
+    prime(records) {
+      persisted = new Map(records.map(r => [getId(r), r]));
+    },
+
+    write(records) {
+      const next = new Map(records.map(r => [getId(r), r]));
+      const put = records.filter(r => persisted.get(getId(r)) !== r).map((r): [string, unknown] => [getId(r), r]);
+      const del = Array.from(persisted.keys()).filter(id => !next.has(id));
+      persisted = next;
+      if (put.length === 0 && del.length === 0) return queue;
+
+      queue = queue
+        .then(() => storage.write(userId, collection, { put, delete: del }))
+        .then(() => onWritten?.({ put, delete: del }))
+        .catch((e) => console.error(`Falha ao salvar ${collection}.`, e));
+      return queue;
+    },
+
+    markStored(records, deletedIds = []) {
+      records.forEach(r => persisted.set(getId(r), r));
+      deletedIds.forEach(id => persisted.delete(id));
+    },
+  };
+};
@@ -0,0 +1,97 @@
+import { ChatSession, LedgerEntry, StreakQualifier } from "../types";
+import { STREAK_RULES } from "../constants";
+import { isActiveEntry } from "./ledgerService";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface StreakResult {
+  current: number;
+  best: number;
+  executedToday: boolean;
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of an instant in the given time zone.
+ * Defaults to the browser's zone, so "today" matches the student's wall clock.
+ */
+export const toDayKey = (date: Date, timeZone?: string): string => {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+};
+
+// Compares calendar days as UTC dates, so DST transitions never produce 23h/25h "days"
+export const dayIndex = (dayKey: string) => {
+  const [y, m, d] = dayKey.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / MS_PER_DAY);
+};
+
+const collectExecutedDays = (
+  ledger: LedgerEntry[],
+  sessions: ChatSession[],
+  qualifiers: StreakQualifier[],
+  timeZone?: string
+): Set<number> => {
+  const days = new Set<number>();
+  const activeEntries = ledger.filter(isActiveEntry);
+
+  if (qualifiers.includes('TIMER_DELIVERABLE')) {
+    activeEntries
+      .filter(e => e.source === 'timer' && e.amount > 0)
+      .forEach(e => days.add(dayIndex(toDayKey(e.timestamp, timeZone))));
+  }
+
+  if (qualifiers.includes('POINTS_THRESHOLD')) {
+    const pointsPerDay: Record<number, number> = {};
+    activeEntries
+      .filter(e => e.source !== 'system')
+      .forEach(e => {
+        const day = dayIndex(toDayKey(e.timestamp, timeZone));
+        pointsPerDay[day] = (pointsPerDay[day] || 0) + e.amount;
+      });
+    Object.entries(pointsPerDay)
+      .filter(([, points]) => points >= STREAK_RULES.minDailyPoints)
+      .forEach(([day]) => days.add(Number(day)));
+  }
+
+  if (qualifiers.includes('CHAT_CHECKIN')) {
+    sessions.forEach(s => s.messages
+      .filter(m => m.role === 'user')
+      .forEach(m => days.add(dayIndex(toDayKey(m.timestamp, timeZone)))));
+  }
+
+  return days;
+};
+
+/**
+ * Derives the daily streak from recorded activity.
+ * Today still counts as "pending": an unexecuted today does not break the streak until the day is over.
+ */
+export const computeStreak = (
+  ledger: LedgerEntry[],
+  sessions: ChatSession[],
+  now: Date = new Date(),
+  qualifiers: StreakQualifier[] = STREAK_RULES.qualifiers,
+  timeZone?: string
+): StreakResult => {
+  const days = collectExecutedDays(ledger, sessions, qualifiers, timeZone);
+  const today = dayIndex(toDayKey(now, timeZone));
+  const executedToday = days.has(today);
+
+  let current = 0;
+  let cursor = executedToday ? today : today - 1;
+  while (days.has(cursor)) {
+    current++;
+    cursor--;
+  }
+
+  let best = 0;
+  let run = 0;
+  let previous: number | null = null;
+  for (const day of Array.from(days).sort((a, b) => a - b)) {
+    run = previous !== null && day === previous + 1 ? run + 1 : 1;
+    best = Math.max(best, run);
+    previous = day;
+  }
+
+  return { current, best, executedToday };
+};
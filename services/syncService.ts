@@ -0,0 +1,293 @@
+import { SessionExpiredError, apiFetch } from "./authService";
+import { RECORD_MERGES, sameRecord } from "./mergeService";
+import { decodeRecords } from "./schema";
+import { STATS_RECORD_ID, StorageBackend, USER_COLLECTIONS, UserCollection } from "./storage";
+
+const PUSH_DELAY_MS = 1500;
+const PULL_INTERVAL_MS = 60 * 1000;
+const RETRY_DELAYS_MS = [2000, 5000, 15000, 30000, 60000];
+const MAX_CHANGES_PER_REQUEST = 200;
+const MAX_CONFLICT_ROUNDS = 3;
+
+export interface SyncStatus {
+  state: 'idle' | 'syncing' | 'offline' | 'error';
+  /** Local changes the backend has not accepted yet. */
+  pending: number;
+  lastSyncedAt: Date | null;
+  error?: string;
+}
+
+// Kept per collection in the `sync` storage collection, so the retry queue survives reloads
+interface CollectionSyncState {
+  /** Backend revision up to which changes were pulled. */
+  cursor: number;
+  /** Backend revision each local record is based on. */
+  revs: Record<string, number>;
+  /** Ids changed locally and not yet accepted by the backend. */
+  pending: string[];
+}
+
+// Shapes of server/store.ts (SyncRecord, ChangeResult)
+interface RemoteRecord {
+  id: string;
+  rev: number;
+  data: unknown;
+  deleted: boolean;
+}
+
+type ChangeResult =
+  | { id: string; status: 'applied'; rev: number }
+  | { id: string; status: 'conflict'; record: RemoteRecord }
+  | { id: string; status: 'rejected'; message: string };
+
+interface AppliedChanges {
+  put: string[];
+  deleted: string[];
+}
+
+/** Network failure or 5xx: the changes stay queued and the engine retries with backoff. */
+class SyncOfflineError extends Error {
+  constructor() {
+    super("Servidor de sincronização indisponível.");
+    this.name = 'SyncOfflineError';
+  }
+}
+
+export interface SyncEngine {
+  /** Queues records written locally (by this tab or another one) for upload. */
+  track(collection: UserCollection, ids: string[]): void;
+  /** Syncs right away, skipping any pending backoff. */
+  syncNow(): void;
+  stop(): void;
+}
+
+export interface SyncEngineOptions {
+  storage: StorageBackend;
+  userId: string;
+  /** Records the engine changed in storage with data from the backend, to be merged into the app state. */
+  onRemoteChanges: (collection: UserCollection, put: string[], deleted: string[]) => void;
+  onStatus: (status: SyncStatus) => void;
+}
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  let res: Response;
+  try {
+    res = await apiFetch(path, init);
+  } catch (e) {
+    if (e instanceof SessionExpiredError) throw e;
+    throw new SyncOfflineError();
+  }
+  if (res.status >= 500) throw new SyncOfflineError();
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(err.message || `Falha na sincronização (${res.status}).`);
+  }
+  return res.json();
+};
+
+/**
+ * Offline-first sync of the user collections with the backend (`/data/<collection>`, see server/README.md).
+ * Each run pulls the changes made elsewhere since the last cursor, merges them into storage with the
+ * RECORD_MERGES rules, then pushes the queued local changes against the revision they were based on.
+ * Conflicts are merged and resent; failures keep the queue and retry with backoff.
+ */
+export const createSyncEngine = (options: SyncEngineOptions): SyncEngine => {
+  const { storage, userId } = options;
+  const states = new Map<UserCollection, Promise<CollectionSyncState>>();
+  // Records changed again while their upload was in flight: they stay queued after it is accepted
+  const changedInFlight = new Set<string>();
+  let status: SyncStatus = { state: 'idle', pending: 0, lastSyncedAt: null };
+  let running: Promise<void> | null = null;
+  let runAgain = false;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  let failures = 0;
+  let stopped = false;
+
+  const loadState = (collection: UserCollection) => {
+    let state = states.get(collection);
+    if (!state) {
+      state = (async () => {
+        const saved = await storage.get<CollectionSyncState>(userId, 'sync', collection);
+        if (saved) return saved;
+        // First sync on this device: everything already stored is uploaded (and merged with the backend's copy)
+        const ids = collection === 'stats'
+          ? (await storage.get(userId, 'stats', STATS_RECORD_ID) ? [STATS_RECORD_ID] : [])
+          : (await storage.list<{ id: string }>(userId, collection)).map(r => r.id);
+        return { cursor: 0, revs: {}, pending: ids };
+      })();
+      states.set(collection, state);
+    }
+    return state;
+  };
+
+  const saveState = (collection: UserCollection, state: CollectionSyncState) => storage.put(userId, 'sync', collection, state);
+
+  const setStatus = async (update: Partial<SyncStatus>) => {
+    const all = await Promise.all(Array.from(states.values()));
+    status = { ...status, ...update, pending: all.reduce((sum, s) => sum + s.pending.length, 0) };
+    options.onStatus(status);
+  };
+
+  const queue = (state: CollectionSyncState, id: string) => {
+    if (!state.pending.includes(id)) state.pending.push(id);
+  };
+
+  const dequeue = (state: CollectionSyncState, id: string) => {
+    state.pending = state.pending.filter(p => p !== id);
+  };
+
+  const notify = (collection: UserCollection, changes: AppliedChanges) => {
+    if (changes.put.length > 0 || changes.deleted.length > 0) options.onRemoteChanges(collection, changes.put, changes.deleted);
+  };
+
+  /**
+   * Merges one backend record into storage. The id stays queued when the local copy has something
+   * the backend's does not; otherwise the backend already has everything and it leaves the queue.
+   */
+  const applyRemote = async (collection: UserCollection, state: CollectionSyncState, remote: RemoteRecord, changes: AppliedChanges) => {
+    state.revs[remote.id] = remote.rev;
+    const local = await storage.get<unknown>(userId, collection, remote.id);
+    const queued = state.pending.includes(remote.id);
+
+    if (remote.deleted) {
+      // An edit made here wins over a deletion made elsewhere; ledger entries are never deleted
+      if (queued || collection === 'ledger' || local === undefined) return;
+      await storage.delete(userId, collection, remote.id);
+      changes.deleted.push(remote.id);
+      return;
+    }
+
+    const [incoming] = decodeRecords(collection, [remote.data], userId);
+    if (incoming === undefined) return;
+    // A local deletion loses against an edit made elsewhere
+    const merged = local === undefined ? incoming : (RECORD_MERGES[collection] as (a: unknown, b: unknown) => unknown)(local, incoming);
+    if (local === undefined || !sameRecord(merged, local)) {
+      await storage.put(userId, collection, remote.id, merged);
+      changes.put.push(remote.id);
+    }
+    if (sameRecord(merged, incoming)) dequeue(state, remote.id);
+    else queue(state, remote.id);
+  };
+
+  const pull = async (collection: UserCollection, state: CollectionSyncState) => {
+    const { records, rev } = await request<{ records: RemoteRecord[]; rev: number }>(`/data/${collection}?since=${state.cursor}`);
+    const changes: AppliedChanges = { put: [], deleted: [] };
+    for (const record of records) await applyRemote(collection, state, record, changes);
+    state.cursor = rev;
+    await saveState(collection, state);
+    notify(collection, changes);
+  };
+
+  const push = async (collection: UserCollection, state: CollectionSyncState) => {
+    for (let round = 0; round < MAX_CONFLICT_ROUNDS && state.pending.length > 0; round++) {
+      const batch = state.pending.slice(0, MAX_CHANGES_PER_REQUEST);
+      const changes = [];
+      for (const id of batch) {
+        changedInFlight.delete(`${collection}:${id}`);
+        const local = await storage.get<unknown>(userId, collection, id);
+        const baseRev = state.revs[id] ?? 0;
+        if (local !== undefined) changes.push({ id, baseRev, data: local });
+        // The backend ledger is append-only: entries removed here (backup replaced) stay there
+        else if (collection === 'ledger') dequeue(state, id);
+        else changes.push({ id, baseRev, deleted: true });
+      }
+      if (changes.length === 0) continue;
+
+      const { results } = await request<{ results: ChangeResult[] }>(`/data/${collection}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changes }),
+      });
+      const merged: AppliedChanges = { put: [], deleted: [] };
+      for (const result of results) {
+        if (result.status === 'applied') {
+          state.revs[result.id] = result.rev;
+          if (!changedInFlight.has(`${collection}:${result.id}`)) dequeue(state, result.id);
+        } else if (result.status === 'conflict') {
+          await applyRemote(collection, state, result.record, merged);
+        } else {
+          console.warn(`Alteração recusada pelo servidor (${collection}/${result.id}): ${result.message}`);
+          dequeue(state, result.id);
+        }
+      }
+      await saveState(collection, state);
+      notify(collection, merged);
+    }
+  };
+
+  const schedule = (delay: number) => {
+    if (stopped) return;
+    if (timeout) clearTimeout(timeout);
+    timeout = setTimeout(start, delay);
+  };
+
+  const run = async () => {
+    await setStatus({ state: 'syncing', error: undefined });
+    try {
+      for (const collection of USER_COLLECTIONS) {
+        const state = await loadState(collection);
+        await pull(collection, state);
+        await push(collection, state);
+      }
+      failures = 0;
+      await setStatus({ state: 'idle', lastSyncedAt: new Date() });
+      schedule(PULL_INTERVAL_MS);
+    } catch (e: any) {
+      // An expired session ends in a logout (App's expiry watch), nothing to retry
+      if (e instanceof SessionExpiredError) {
+        await setStatus({ state: 'error', error: e.message });
+        return;
+      }
+      if (!(e instanceof SyncOfflineError)) console.error("Falha na sincronização.", e);
+      await setStatus(e instanceof SyncOfflineError ? { state: 'offline' } : { state: 'error', error: e.message });
+      schedule(RETRY_DELAYS_MS[Math.min(failures++, RETRY_DELAYS_MS.length - 1)]);
+    }
+  };
+
+  function start() {
+    timeout = null;
+    if (stopped) return;
+    if (running) {
+      runAgain = true;
+      return;
+    }
+    running = run().finally(() => {
+      running = null;
+      if (runAgain) {
+        runAgain = false;
+        start();
+      }
+    });
+  }
+
+  const handleOnline = () => start();
+  window.addEventListener('online', handleOnline);
+  start();
+
+  return {
+    track(collection, ids) {
+      if (stopped || ids.length === 0) return;
+      loadState(collection).then(async (state) => {
+        ids.forEach(id => {
+          queue(state, id);
+          changedInFlight.add(`${collection}:${id}`);
+        });
+        await saveState(collection, state);
+        await setStatus({});
+        // While offline the backoff decides; a burst of edits should not hammer an unreachable server
+        if (status.state !== 'offline') schedule(PUSH_DELAY_MS);
+      }).catch((e) => console.error("Falha ao registrar alteração para sincronizar.", e));
+    },
+
+    syncNow() {
+      if (timeout) clearTimeout(timeout);
+      start();
+    },
+
+    stop() {
+      stopped = true;
+      if (timeout) clearTimeout(timeout);
+      window.removeEventListener('online', handleOnline);
+    },
+  };
+};
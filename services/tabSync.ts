@@ -0,0 +1,130 @@
+import { TimerState } from "../types";
+import { CollectionWriter, UserCollection } from "./storage";
+import { sameRecord } from "./mergeService";
+import type { SyncStatus } from "./syncService";
+
+/**
+ * Messages between tabs of the same user. Record changes only carry ids: the records themselves are
+ * read back from the shared storage, which keeps messages small and Dates intact.
+ */
+export type SyncMessage =
+  | { type: 'records'; collection: UserCollection; put: string[]; delete: string[] }
+  | { type: 'timer'; timer: TimerState }
+  | { type: 'sync-status'; status: SyncStatus }
+  | { type: 'sync-request' }
+  // Sent by a tab that just opened: the timer owner and the sync leader answer with their state
+  | { type: 'hello' };
+
+export interface TabSync {
+  publishRecords(collection: UserCollection, put: string[], deleted: string[]): void;
+  publishTimer(timer: TimerState): void;
+  publishSyncStatus(status: SyncStatus): void;
+  /** Asks the tab that syncs with the backend to do it now. */
+  requestSync(): void;
+  announce(): void;
+  close(): void;
+}
+
+interface Transport {
+  post(message: SyncMessage): void;
+  close(): void;
+}
+
+// BroadcastChannel where available, otherwise storage events (which only fire in the other tabs)
+const openTransport = (name: string, onMessage: (message: SyncMessage) => void): Transport => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (e) => onMessage(e.data);
+    return { post: (message) => channel.postMessage(message), close: () => channel.close() };
+  }
+
+  const listener = (e: StorageEvent) => {
+    if (e.key !== name || !e.newValue) return;
+    try {
+      onMessage(JSON.parse(e.newValue).message);
+    } catch (err) {
+      console.error("Mensagem de sincronização ilegível.", err);
+    }
+  };
+  window.addEventListener('storage', listener);
+  return {
+    // The nonce makes every message a change of the key, so identical messages still fire an event
+    post: (message) => localStorage.setItem(name, JSON.stringify({ message, nonce: Math.random() })),
+    close: () => window.removeEventListener('storage', listener),
+  };
+};
+
+export const createTabSync = (userId: string, onMessage: (message: SyncMessage) => void): TabSync => {
+  const transport = openTransport(`mentor_sync_${userId}`, onMessage);
+  return {
+    publishRecords(collection, put, deleted) {
+      transport.post({ type: 'records', collection, put, delete: deleted });
+    },
+    publishTimer(timer) {
+      transport.post({ type: 'timer', timer });
+    },
+    publishSyncStatus(status) {
+      transport.post({ type: 'sync-status', status });
+    },
+    requestSync() {
+      transport.post({ type: 'sync-request' });
+    },
+    announce() {
+      transport.post({ type: 'hello' });
+    },
+    close() {
+      transport.close();
+    },
+  };
+};
+
+/**
+ * Elects a single tab for a job (running the timer, syncing with the backend): the holder of the Web Lock
+ * `name`, kept until the tab closes or the returned function is called, at which point the next waiting tab
+ * is elected. Returns null when the browser has no Web Locks; every tab then does the job on its own.
+ */
+export const electLeader = (name: string, onElected: () => void): (() => void) | null => {
+  if (typeof navigator === 'undefined' || !navigator.locks) return null;
+
+  const controller = new AbortController();
+  let release = () => {};
+  navigator.locks
+    .request(name, { signal: controller.signal }, () => new Promise<void>((resolve) => {
+      release = resolve;
+      onElected();
+    }))
+    // AbortError when resigning before being elected
+    .catch(() => {});
+
+  return () => {
+    controller.abort();
+    release();
+  };
+};
+
+/**
+ * Folds records written by another tab into the local state with `combine` (see mergeService).
+ * When the merge adds nothing local to a record, the incoming object itself is kept and marked as stored,
+ * so the tabs do not keep writing the same record back to each other.
+ */
+export const mergeRemoteRecords = <T>(
+  current: T[],
+  incoming: T[],
+  deletedIds: string[],
+  writer: CollectionWriter<T>,
+  getId: (record: T) => string,
+  combine: (current: T, incoming: T) => T
+): T[] => {
+  const deleted = new Set(deletedIds);
+  const merged = new Map(current.filter(r => !deleted.has(getId(r))).map(r => [getId(r), r]));
+  const stored: T[] = [];
+  for (const record of incoming) {
+    const existing = merged.get(getId(record));
+    const combined = existing ? combine(existing, record) : record;
+    const kept = sameRecord(combined, record) ? record : combined;
+    if (kept === record) stored.push(record);
+    merged.set(getId(record), kept);
+  }
+  writer.markStored(stored, deletedIds);
+  return Array.from(merged.values());
+};
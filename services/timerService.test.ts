@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { CYCLE_PROGRAMS } from '../constants';
+import { advanceTimer, createTimer, loadProgram, pauseTimer, startTimer } from './timerService';
+
+const MINUTE = 60 * 1000;
+const POMODORO = CYCLE_PROGRAMS[0];
+
+describe('pauseTimer', () => {
+  it('counts the pauses of focus blocks', () => {
+    let timer = startTimer(createTimer(25), 0);
+    timer = pauseTimer(timer, 5 * MINUTE);
+    timer = pauseTimer(startTimer(timer, 6 * MINUTE), 10 * MINUTE);
+
+    expect(timer.run?.pauses).toBe(2);
+    expect(timer.elapsedMs).toBe(9 * MINUTE);
+  });
+
+  it('does not count pausing a break', () => {
+    // The first focus block ran out: the program is now on its first break, with the run still open
+    const { timer: onBreak } = advanceTimer(startTimer(loadProgram(createTimer(), POMODORO), 0), 26 * MINUTE);
+    expect(onBreak.mode).toBe('BREAK');
+
+    const paused = pauseTimer(onBreak, 27 * MINUTE);
+    expect(paused.startedAt).toBeNull();
+    expect(paused.run?.pauses).toBe(0);
+  });
+
+  it('leaves a stopped timer alone', () => {
+    const timer = createTimer(25);
+    expect(pauseTimer(timer, MINUTE)).toBe(timer);
+  });
+});
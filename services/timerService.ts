@@ -0,0 +1,195 @@
+import { CycleProgram, TimerState } from "../types";
+import { checkRecord, isString } from "./schema";
+
+const MINUTE_MS = 60 * 1000;
+
+/** The timer survives reloads as this single record of the `timer` storage collection. */
+export const TIMER_RECORD_ID = 'current';
+
+export const createTimer = (minutes = 25, mode: TimerState['mode'] = 'FOCUS'): TimerState => ({
+  mode,
+  deliverable: '',
+  durationMs: minutes * MINUTE_MS,
+  startedAt: null,
+  elapsedMs: 0,
+  completedAt: null,
+});
+
+export const isRunning = (timer: TimerState) => timer.startedAt !== null;
+
+export const getElapsedMs = (timer: TimerState, now: number) => {
+  const running = timer.startedAt !== null ? Math.max(0, now - timer.startedAt) : 0;
+  const elapsed = timer.elapsedMs + running;
+  return timer.mode === 'FREE' ? elapsed : Math.min(timer.durationMs, elapsed);
+};
+
+/** Negative for a stopwatch past its soft target. */
+export const getRemainingMs = (timer: TimerState, now: number) => timer.durationMs - getElapsedMs(timer, now);
+
+/** Starts or resumes; a countdown that already reached zero starts over. The first start of a focus block opens a run. */
+export const startTimer = (timer: TimerState, now: number): TimerState => {
+  if (isRunning(timer)) return timer;
+  const restart = timer.mode === 'FREE' ? timer.completedAt !== null : getRemainingMs(timer, now) <= 0;
+  const run = timer.run ?? (timer.mode !== 'BREAK' ? { startedAt: now, pauses: 0, focusMs: 0 } : undefined);
+  return { ...timer, startedAt: now, elapsedMs: restart ? 0 : timer.elapsedMs, completedAt: null, ...(run && { run }) };
+};
+
+/** Pausing a break does not count against the run: only focus blocks were interrupted. */
+export const pauseTimer = (timer: TimerState, now: number): TimerState => {
+  if (!isRunning(timer)) return timer;
+  const paused = { ...timer, startedAt: null, elapsedMs: getElapsedMs(timer, now) };
+  if (!timer.run || timer.mode === 'BREAK') return paused;
+  return { ...paused, run: { ...timer.run, pauses: timer.run.pauses + 1 } };
+};
+
+/** Stops the timer and sets a new duration (and mode), keeping the deliverable. */
+export const setTimerDuration = (timer: TimerState, durationMs: number, mode: TimerState['mode'] = timer.mode): TimerState =>
+  ({ ...timer, mode, durationMs: Math.max(0, durationMs), startedAt: null, elapsedMs: 0, completedAt: null });
+
+/**
+ * Stops a running timer whose time is up. `completedAt` is when it actually ran out, which is earlier
+ * than `now` when the tab was throttled or the app was closed. Returns the same object otherwise.
+ */
+export const completeIfExpired = (timer: TimerState, now: number): TimerState => {
+  // A stopwatch only ends when stopped (stopStopwatch)
+  if (timer.startedAt === null || timer.mode === 'FREE' || getRemainingMs(timer, now) > 0) return timer;
+  const completed = {
+    ...timer,
+    startedAt: null,
+    elapsedMs: timer.durationMs,
+    completedAt: timer.startedAt + (timer.durationMs - timer.elapsedMs),
+  };
+  if (!timer.run || timer.mode === 'BREAK') return completed;
+  return { ...completed, run: { ...timer.run, focusMs: timer.run.focusMs + timer.durationMs } };
+};
+
+// --- Stopwatch (FREE mode) ---
+
+/** Stops the stopwatch where it is and completes it, which opens the post-check. */
+export const stopStopwatch = (timer: TimerState, now: number): TimerState => {
+  const elapsedMs = getElapsedMs(timer, now);
+  const run = timer.run && { ...timer.run, focusMs: timer.run.focusMs + elapsedMs };
+  return { ...timer, startedAt: null, elapsedMs, completedAt: now, ...(run && { run }) };
+};
+
+/** Marks a sub-deliverable done at the current stopwatch time. */
+export const addLap = (timer: TimerState, label: string, now: number): TimerState => {
+  if (!timer.run) return timer;
+  const laps = [...(timer.run.laps ?? []), { label, atMs: getElapsedMs(timer, now) }];
+  return { ...timer, run: { ...timer.run, laps } };
+};
+
+/** Sets the soft target of the stopwatch without touching the time already counted. */
+export const setStopwatchTarget = (timer: TimerState, targetMs: number): TimerState => ({ ...timer, durationMs: Math.max(0, targetMs) });
+
+/** Closes the focus session in progress (answered in the post-check, or abandoned). */
+export const endRun = (timer: TimerState): TimerState => {
+  const { run, ...rest } = timer;
+  return rest;
+};
+
+// --- Programs ---
+
+/** Sets the timer up for the first focus block of `program`, not started yet. */
+export const loadProgram = (timer: TimerState, program: CycleProgram): TimerState =>
+  ({ ...setTimerDuration(timer, program.focusMinutes * MINUTE_MS, 'FOCUS'), program, cycle: 1 });
+
+export const clearProgram = (timer: TimerState): TimerState => {
+  const { program, cycle, ...rest } = timer;
+  return rest;
+};
+
+export const isLongBreak = (timer: TimerState) => {
+  const { program, cycle = 1 } = timer;
+  return timer.mode === 'BREAK' && !!program && program.longBreakEvery > 0 && cycle % program.longBreakEvery === 0;
+};
+
+// Block that follows the one just completed; null when the program is over
+const nextBlock = (program: CycleProgram, mode: TimerState['mode'], cycle: number) => {
+  if (mode === 'BREAK') return { mode: 'FOCUS' as const, minutes: program.focusMinutes, cycle: cycle + 1 };
+  if (cycle >= program.totalCycles) return null;
+  const long = program.longBreakEvery > 0 && cycle % program.longBreakEvery === 0;
+  return { mode: 'BREAK' as const, minutes: long ? program.longBreakMinutes : program.breakMinutes, cycle };
+};
+
+export interface TimerAdvance {
+  timer: TimerState;
+  /** Focus cycles that were completed by this advance. */
+  completedCycles: number[];
+}
+
+/**
+ * completeIfExpired for programs: each block starts exactly when the previous one ran out, so blocks that
+ * ran out while the app was closed are caught up at once. The timer only stops when the program is over.
+ */
+export const advanceTimer = (timer: TimerState, now: number): TimerAdvance => {
+  const completedCycles: number[] = [];
+  let current = timer;
+  for (;;) {
+    const completed = completeIfExpired(current, now);
+    if (completed === current) break;
+    current = completed;
+    const { program, cycle = 1 } = completed;
+    if (!program) break;
+    if (completed.mode === 'FOCUS') completedCycles.push(cycle);
+    const next = nextBlock(program, completed.mode, cycle);
+    if (!next) break;
+    current = { ...setTimerDuration(completed, next.minutes * MINUTE_MS, next.mode), cycle: next.cycle, startedAt: completed.completedAt };
+  }
+  return { timer: current, completedCycles };
+};
+
+// --- Persistence ---
+
+const isTimestamp = (value: unknown) => value === null || Number.isFinite(value);
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+
+const isRun = (value: unknown) => {
+  const issues: string[] = [];
+  checkRecord(issues, 'run', value, [
+    ['startedAt', Number.isFinite],
+    ['pauses', isCount],
+    ['focusMs', Number.isFinite],
+    ['laps', v => Array.isArray(v), true],
+  ]);
+  return issues.length === 0;
+};
+
+const isProgram = (value: unknown) => {
+  const issues: string[] = [];
+  checkRecord(issues, 'program', value, [
+    ['id', isString],
+    ['name', isString],
+    ['focusMinutes', v => isCount(v) && v > 0],
+    ['breakMinutes', isCount],
+    ['longBreakMinutes', isCount],
+    ['longBreakEvery', isCount],
+    ['totalCycles', v => isCount(v) && v > 0],
+  ]);
+  return issues.length === 0;
+};
+
+/**
+ * The stored timer as it was left, or a fresh one when missing or malformed. A timer that ran out while the
+ * app was closed is completed (and its program advanced) by the timer owner, like any other expiry.
+ */
+export const restoreTimer = (saved: unknown): TimerState => {
+  if (saved === undefined) return createTimer();
+  const issues: string[] = [];
+  checkRecord(issues, 'timer', saved, [
+    ['mode', v => ['FOCUS', 'BREAK', 'FREE'].includes(v)],
+    ['deliverable', isString, true],
+    ['durationMs', Number.isFinite],
+    ['startedAt', isTimestamp],
+    ['elapsedMs', Number.isFinite],
+    ['completedAt', isTimestamp],
+    ['program', isProgram, true],
+    ['cycle', v => isCount(v) && v > 0, true],
+    ['run', isRun, true],
+  ]);
+  if (issues.length > 0) {
+    console.warn("Timer salvo inválido descartado.", issues);
+    return createTimer();
+  }
+  return saved as TimerState;
+};
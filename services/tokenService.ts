@@ -0,0 +1,65 @@
+// Compact HMAC-SHA256 tokens (JWT layout) for the local auth fallback.
+// The signing key lives on this device, so this does not protect against someone with full access to
+// localStorage; it stops hand-edited or stale session records from being trusted.
+
+import { KeyValueStore, browserStorage } from "./keyValueStore";
+
+const SIGNING_KEY_STORAGE = "MENTOR_AUTH_SIGNING_KEY";
+
+export interface TokenPayload {
+  sub: string; // User id
+  iat: number; // Issued at (ms)
+  exp: number; // Expires at (ms)
+}
+
+const base64UrlEncode = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const base64UrlDecode = (value: string) => {
+  const b64 = value.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - value.length % 4) % 4);
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const encodeJson = (value: object) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+
+const getSigningKey = async (storage: KeyValueStore): Promise<CryptoKey> => {
+  let raw = storage.getItem(SIGNING_KEY_STORAGE);
+  if (!raw) {
+    raw = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+    storage.setItem(SIGNING_KEY_STORAGE, raw);
+  }
+  return crypto.subtle.importKey('raw', base64UrlDecode(raw), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+};
+
+export const signLocalToken = async (userId: string, ttlMs: number, storage: KeyValueStore = browserStorage): Promise<{ token: string, payload: TokenPayload }> => {
+  const now = Date.now();
+  const payload: TokenPayload = { sub: userId, iat: now, exp: now + ttlMs };
+  const body = `${encodeJson({ alg: 'HS256', typ: 'JWT' })}.${encodeJson(payload)}`;
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(storage), new TextEncoder().encode(body));
+  return { token: `${body}.${base64UrlEncode(new Uint8Array(signature))}`, payload };
+};
+
+/** Returns the payload when the signature is valid, regardless of expiry (callers decide what to do with `exp`). */
+export const verifyLocalToken = async (token: string, storage: KeyValueStore = browserStorage): Promise<TokenPayload | null> => {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(storage),
+      base64UrlDecode(signature),
+      new TextEncoder().encode(`${header}.${payload}`)
+    );
+    if (!valid) return null;
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))) as TokenPayload;
+  } catch (e) {
+    return null;
+  }
+};
@@ -5,7 +5,8 @@ export enum AppView {
   VOICE = 'VOICE',
   MAPS = 'MAPS',
   TIMER = 'TIMER',
-  HISTORY = 'HISTORY'
+  HISTORY = 'HISTORY',
+  ANALYTICS = 'ANALYTICS'
 }
 
 export interface UserProfile {
@@ -20,6 +21,8 @@ export interface Message {
   role: 'user' | 'model';
   text: string;
   timestamp: Date;
+  /** award_points calls of a model reply, kept so the next turns show the model what it already awarded. */
+  awards?: PointAward[];
 }
 
 export interface ChatSession {
@@ -36,12 +39,97 @@ export interface MentalMapItem {
   createdAt: Date;
 }
 
+// Alternating focus and break blocks run back to back by the timer (services/timerService.ts)
+export interface CycleProgram {
+  id: string;
+  name: string;
+  focusMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes: number;
+  /** The break after every this many focus blocks is a long one (0 = never). */
+  longBreakEvery: number;
+  totalCycles: number;
+}
+
+// Timestamps rather than a counter, so the remaining time is always computed from the clock (services/timerService.ts)
 export interface TimerState {
-  minutes: number;
-  seconds: number;
-  isActive: boolean;
+  /** FREE counts up with no end (a stopwatch); `durationMs` is then its soft target, 0 for none. */
   mode: 'FOCUS' | 'BREAK' | 'FREE';
   deliverable?: string;
+  durationMs: number;
+  /** Epoch ms of the last start or resume; null while paused or stopped. */
+  startedAt: number | null;
+  /** Running time accumulated before the last pause. */
+  elapsedMs: number;
+  /** Epoch ms at which the countdown reached zero; null until it does. */
+  completedAt: number | null;
+  /** Set while running a program: the current block is part of focus cycle `cycle` (1-based). */
+  program?: CycleProgram;
+  cycle?: number;
+  /** The focus session in progress, from its first start until the post-check. */
+  run?: FocusRun;
+}
+
+export interface FocusRun {
+  startedAt: number;
+  pauses: number;
+  /** Length of the focus blocks completed so far (breaks excluded). */
+  focusMs: number;
+  /** Sub-deliverables marked done on the stopwatch (FREE mode). */
+  laps?: FocusLap[];
+}
+
+export interface FocusLap {
+  label: string;
+  /** Stopwatch time when it was marked. */
+  atMs: number;
+}
+
+/** A focus session answered in the post-check (services/focusService.ts). */
+export interface FocusSession {
+  id: string;
+  deliverable: string;
+  mode: TimerState['mode'];
+  programId?: string;
+  /** Focus cycles completed, for programs. */
+  cycles?: number;
+  plannedMs: number;
+  focusMs: number;
+  pauses: number;
+  laps?: FocusLap[];
+  outcome: 'EXECUTED' | 'FAILED';
+  startedAt: Date;
+  endedAt: Date;
+}
+
+// Mirrors the four award triggers listed in SYSTEM_INSTRUCTION
+export type AwardCategory = 'TASK_EXECUTION' | 'DEEP_UNDERSTANDING' | 'FOCUS_CYCLE' | 'NEW_HABIT';
+
+export interface PointAward {
+  amount: number;
+  reason: string;
+  category: AwardCategory;
+}
+
+export interface MentorResponse {
+  text: string;
+  awards: PointAward[];
+}
+
+export type LedgerSource = 'chat' | 'timer' | 'voice' | 'system';
+
+export interface LedgerEntry {
+  id: string;
+  amount: number;
+  reason: string;
+  source: LedgerSource;
+  category?: AwardCategory;
+  sessionId?: string;
+  messageId?: string;
+  timestamp: Date;
+  reversedAt?: Date; // Reversed entries stay in the ledger for audit but no longer count
+  requestedAmount?: number; // Set when the award policy changed the amount
+  rejection?: string; // Set when the award policy refused the award (amount is then 0)
 }
 
 export interface Achievement {
@@ -52,10 +140,43 @@ export interface Achievement {
   unlockedAt: Date;
 }
 
+// Activities that count a day as "executed" for the streak
+export type StreakQualifier = 'TIMER_DELIVERABLE' | 'POINTS_THRESHOLD' | 'CHAT_CHECKIN';
+
+export interface PrestigeCycle {
+  cycle: number;
+  startedAt?: Date; // Undefined for the first cycle (starts with the account)
+  completedAt: Date;
+  points: number;
+}
+
 export interface UserStats {
   userId: string; // Added for auth association
-  points: number;
+  points: number; // Points of the current prestige cycle
+  lifetimePoints: number;
   level: number;
   streak: number;
+  bestStreak: number;
   achievements: Achievement[];
+  voiceSessions: number;
+  prestige: number;
+  prestigeHistory: PrestigeCycle[];
+}
+
+// Personal-data archive produced by services/accountService.ts (dates are ISO strings once serialized)
+export interface AccountArchive {
+  format: 'mentor-export';
+  version: number;
+  exportedAt: string; // ISO Date
+  profile: UserProfile;
+  source: 'local' | 'remote';
+  data: {
+    sessions?: ChatSession[];
+    maps?: MentalMapItem[];
+    stats?: UserStats;
+    ledger?: LedgerEntry[];
+    focus?: FocusSession[];
+    [key: string]: unknown; // Collections added by later versions
+  };
+  server?: unknown; // Copy held by the backend (GET /account/export), remote accounts only
 }
@@ -2,22 +2,30 @@
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Gemini key variables read by services/geminiService.ts (API_KEY, API_KEY_A1, VITE_API_KEY...)
+const GEMINI_KEY_PATTERN = /^(VITE_)?API_KEY(_[A-Z]\d+)?$/;
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   // Load env file based on `mode` in the current working directory.
   // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
   const env = loadEnv(mode, (process as any).cwd(), '');
-  
+
+  // In 'proxy' mode the keys live on the server (server/README.md) and must never reach the bundle.
+  const shipKeys = env.VITE_GEMINI_MODE !== 'proxy';
+
+  // Only public variables end up in the client: VITE_* plus, in 'direct' mode, the Gemini keys.
+  // This allows 'API_KEY' from Vercel to work without the 'VITE_' prefix.
+  const clientEnv = Object.fromEntries(
+    Object.entries(env).filter(([key]) =>
+      GEMINI_KEY_PATTERN.test(key) ? shipKeys : key.startsWith('VITE_')
+    )
+  );
+
   return {
     plugins: [react()],
     define: {
-      // CRITICAL FIX: Manually expose the API_KEY to the client-side code.
-      // This allows 'API_KEY' from Vercel to work without the 'VITE_' prefix.
-      'process.env.API_KEY': JSON.stringify(env.API_KEY || process.env.API_KEY),
-      // Also expose VITE_API_KEY just in case the user renames it later
-      'process.env.VITE_API_KEY': JSON.stringify(env.VITE_API_KEY || process.env.VITE_API_KEY),
-      // Fallback for full env object
-      'process.env': JSON.stringify(env)
+      'process.env': JSON.stringify(clientEnv)
     },
     build: {
       outDir: 'dist',